@@ -1,10 +1,11 @@
 import React, { useEffect, useState } from 'react';
-import { StatusBar } from 'react-native';
+import { StatusBar, StyleSheet } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import AppNavigator from './src/navigation/AppNavigator';
 import CustomSplashScreen from './src/components/CustomSplashScreen';
-import database from './src/services/database';
 import notificationService from './src/services/notificationService';
+import horizonManager from './src/services/horizonManager';
 import taskService from './src/services/taskService';
 import { ThemeProvider } from './src/contexts/ThemeContext';
 import ThemedStatusBar from './src/components/ThemedStatusBar';
@@ -17,7 +18,7 @@ function App(): React.JSX.Element {
     const initializeApp = async () => {
       try {
         console.log('App: Starting app initialization...');
-        await database.init();
+        await taskService.init();
         console.log('App: Database initialized successfully');
         
         notificationService.requestPermissions();
@@ -25,9 +26,9 @@ function App(): React.JSX.Element {
         notificationService.scheduleEveningNotification();
         console.log('App: Notification services initialized');
         
-        // Generate any missing recurring task instances
-        await taskService.generateMissingRecurringInstances();
-        console.log('App: Recurring task instances checked');
+        // Extend recurring series now and whenever the app is foregrounded
+        await horizonManager.start();
+        console.log('App: Recurring task instances extended');
         
         console.log('App: App initialization completed successfully');
         setAppReady(true);
@@ -43,6 +44,8 @@ function App(): React.JSX.Element {
     };
 
     initializeApp();
+
+    return () => horizonManager.stop();
   }, []);
 
   const handleSplashFinish = () => {
@@ -59,13 +62,21 @@ function App(): React.JSX.Element {
   }
 
   return (
-    <SafeAreaProvider>
-      <ThemeProvider>
-        <ThemedStatusBar />
-        <AppNavigator />
-      </ThemeProvider>
-    </SafeAreaProvider>
+    <GestureHandlerRootView style={styles.root}>
+      <SafeAreaProvider>
+        <ThemeProvider>
+          <ThemedStatusBar />
+          <AppNavigator />
+        </ThemeProvider>
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
   );
 }
 
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
+
 export default App;
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment ./__tests__/helpers/timeZoneEnvironment.js
+ */
+import { openTestDatabase, TestDatabase } from './helpers/sqlJsDatabase';
+import database from '../src/services/database';
+import { analyzeTaskCompletion } from '../src/utils/completionAnalytics';
+import { addDays, getDateString, getWallClock, parseLocalDate } from '../src/utils/date';
+import { generateId } from '../src/utils/id';
+
+let testDb: TestDatabase;
+
+// Provided by the test environment; no zone restores the original one
+declare function setTimeZone(timeZone?: string): void;
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const createChore = (dueDate: string, dueTime?: string) =>
+  database.createTask({
+    title: 'Water the plants',
+    type: 'chore',
+    dueDate,
+    dueTime,
+    isRecurring: false,
+    priority: 'medium',
+  });
+
+// Records a completion at a local date and time, stored as a UTC instant
+const completeAt = async (taskId: string, date: string, time: string) => {
+  const completedAt = parseLocalDate(date, time).toISOString();
+  await testDb.executeSql(
+    'INSERT INTO task_completions (id, task_id, completed_at) VALUES (?, ?, ?)',
+    [generateId(), taskId, completedAt]
+  );
+  return completedAt;
+};
+
+// Both ends of the day fall on a different UTC date somewhere below
+describe.each(['America/New_York', 'Asia/Tokyo', 'Pacific/Kiritimati', 'Pacific/Pago_Pago'])(
+  'local completion dates in %s',
+  timeZone => {
+    let today: string;
+
+    beforeAll(() => {
+      setTimeZone(timeZone);
+      today = getDateString(new Date());
+    });
+    afterAll(() => setTimeZone());
+
+    beforeEach(async () => {
+      testDb = await openTestDatabase();
+      await database.init(testDb);
+    });
+
+    afterEach(() => {
+      testDb.close();
+    });
+
+    it('counts late evening and early morning completions as today', async () => {
+      const evening = await createChore(today);
+      const morning = await createChore(today);
+      await completeAt(evening.id, today, '23:30');
+      await completeAt(morning.id, today, '00:30');
+
+      const completions = await database.getCompletions(undefined, today);
+      expect(completions.map(c => c.taskId).sort()).toEqual([evening.id, morning.id].sort());
+    });
+
+    it('does not count completions from the neighbouring days', async () => {
+      const task = await createChore(today);
+      await completeAt(task.id, addDays(today, -1), '23:30');
+      await completeAt(task.id, addDays(today, 1), '00:30');
+
+      expect(await database.getCompletions(undefined, today)).toEqual([]);
+    });
+
+    it('finds completions by local date and date range', async () => {
+      const task = await createChore(today);
+      const yesterday = addDays(today, -1);
+      const lastNight = await completeAt(task.id, yesterday, '23:30');
+      await completeAt(task.id, today, '00:30');
+
+      expect((await database.getCompletions(task.id, yesterday)).map(c => c.completedAt)).toEqual([
+        lastNight,
+      ]);
+
+      const { completions } = await database.getCompletionAnalyticsForDateRange(
+        addDays(today, -7),
+        yesterday
+      );
+      expect(completions.map(c => c.completedAt)).toEqual([lastNight]);
+    });
+
+    it('does not treat a task completed on a later day as overdue', async () => {
+      const yesterday = addDays(today, -1);
+      const doneLate = await createChore(yesterday);
+      const open = await createChore(yesterday);
+      await completeAt(doneLate.id, today, '00:30');
+
+      expect((await database.getOverdueTasks()).map(task => task.id)).toEqual([open.id]);
+      expect([...(await database.getCompletionState([doneLate.id, open.id])).keys()]).toEqual([doneLate.id]);
+    });
+
+    it('measures lateness against the local due date', async () => {
+      const task = await createChore('2025-01-15');
+      const completedAt = await completeAt(task.id, '2025-01-15', '20:00');
+
+      const analytics = analyzeTaskCompletion(task, { id: '1', taskId: task.id, completedAt });
+      expect(analytics.wasCompletedLate).toBe(false);
+      expect(getDateString(analytics.dueDateTime)).toBe('2025-01-15');
+    });
+
+    it('reports a task in a fixed zone overdue once its due time there has passed', async () => {
+      const createAppointment = (due: { date: string; time: string }) =>
+        database.createTask({
+          title: 'Call with the London office',
+          type: 'appointment',
+          dueDate: due.date,
+          dueTime: due.time,
+          timeZone: 'Europe/London',
+          isRecurring: false,
+          priority: 'high',
+        });
+      const now = Date.now();
+      const missed = await createAppointment(getWallClock(new Date(now - 60 * 60 * 1000), 'Europe/London'));
+      await createAppointment(getWallClock(new Date(now + 60 * 60 * 1000), 'Europe/London'));
+
+      expect((await database.getOverdueTasks()).map(task => task.id)).toEqual([missed.id]);
+    });
+
+    it('measures lateness against the due time in a fixed zone', async () => {
+      const task = await database.createTask({
+        title: 'Dentist',
+        type: 'appointment',
+        dueDate: '2025-01-15',
+        dueTime: '14:00',
+        timeZone: 'Europe/London',
+        isRecurring: false,
+        priority: 'high',
+      });
+      const stored = (await database.getTaskWithCompletions(task.id))!.task;
+      expect(stored.timeZone).toBe('Europe/London');
+
+      const completedAt = '2025-01-15T14:30:00.000Z';
+      const analytics = analyzeTaskCompletion(stored, { id: '1', taskId: task.id, completedAt });
+      expect(analytics.wasCompletedLate).toBe(true);
+      expect(analytics.hoursLate).toBe(0.5);
+    });
+  }
+);
+
+describe('query plans', () => {
+  const ROWS = 50000;
+
+  beforeAll(async () => {
+    testDb = await openTestDatabase();
+    await database.init(testDb);
+
+    // The search index is not under test, and keeping it current row by row dominates seeding
+    const [triggers] = await testDb.executeSql("SELECT name FROM sqlite_master WHERE type = 'trigger'");
+    for (const { name } of triggers.rows.raw()) {
+      testDb.raw.run(`DROP TRIGGER ${name}`);
+    }
+
+    // Two years of tasks across twenty categories, each completed once
+    testDb.raw.run(
+      `WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${ROWS})
+       INSERT INTO tasks (id, title, type, due_date, due_time, priority, category_id, created_at, updated_at)
+       SELECT 'task-' || i, 'Task ' || i, 'chore', date('2025-01-01', '+' || (i % 730) || ' days'),
+              printf('%02d:00', i % 24), 'medium', 'cat-' || (i % 20), '2025-01-01T00:00:00.000Z', '2025-01-01T00:00:00.000Z'
+       FROM n`
+    );
+    testDb.raw.run(
+      `INSERT INTO task_completions (id, task_id, completed_at)
+       SELECT 'completion-' || id, id, due_date || 'T' || due_time || ':00.000Z' FROM tasks`
+    );
+    testDb.raw.run('ANALYZE');
+  }, 60000);
+
+  afterAll(() => {
+    testDb.close();
+  });
+
+  // The query plan of every SELECT the work runs
+  const explainQueries = async (work: () => Promise<unknown>) => {
+    const spy = jest.spyOn(testDb, 'executeSql');
+    await work();
+    const queries = spy.mock.calls.filter(([statement]) => /^\s*SELECT/i.test(statement));
+    spy.mockRestore();
+
+    const plans: string[] = [];
+    for (const [statement, params] of queries) {
+      const [result] = await testDb.executeSql<{ detail: string }>(`EXPLAIN QUERY PLAN ${statement}`, params);
+      plans.push(result.rows.raw().map(row => row.detail).join('\n'));
+    }
+    return plans;
+  };
+
+  it.each([
+    ['tasks due on a date', () => database.getTasks('2025-06-01'), 'idx_tasks_due_date'],
+    ['tasks due in a range', () => database.getTasksInRange('2025-06-01', '2025-06-30'), 'idx_tasks_due_date'],
+    ['tasks in a category', () => database.countCategoryTasks('cat-3'), 'idx_tasks_category'],
+    ['completions of a task', () => database.getCompletions('task-42'), 'idx_task_completions_task'],
+    ['completions of many tasks', () => database.getCompletionsForTasks(['task-1', 'task-2']), 'idx_task_completions_task'],
+    ['completions on a date', () => database.getCompletions(undefined, '2025-06-01'), 'idx_task_completions_completed_at'],
+  ])('looks up %s by index', async (_, work, index) => {
+    const plans = await explainQueries(work);
+
+    expect(plans.length).toBeGreaterThan(0);
+    for (const plan of plans) {
+      expect(plan).toMatch(new RegExp(`USING (COVERING )?INDEX ${index}\\b`));
+      expect(plan).not.toMatch(/SCAN (tasks|task_completions)\b/);
+    }
+  });
+});
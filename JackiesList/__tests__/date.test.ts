@@ -0,0 +1,156 @@
+/**
+ * @jest-environment ./__tests__/helpers/timeZoneEnvironment.js
+ */
+import {
+  formatDueTime,
+  getDueDateTime,
+  getLocalDateOfInstant,
+  getLocalDayRange,
+  getSnoozedDueDate,
+  getWallClock,
+  isPastDue,
+  parseLocalDate,
+} from '../src/utils/date';
+
+// Provided by the test environment; no zone restores the original one
+declare function setTimeZone(timeZone?: string): void;
+
+// Wednesday, 10:30 local time
+const now = new Date('2025-01-15T10:30:00');
+
+describe('getSnoozedDueDate', () => {
+  it('moves a timed task an hour past its due time', () => {
+    expect(getSnoozedDueDate('hour', '2025-01-15', '23:30', now)).toEqual({
+      dueDate: '2025-01-16',
+      dueTime: '00:30',
+    });
+  });
+
+  it('moves an overdue or untimed task an hour from now', () => {
+    expect(getSnoozedDueDate('hour', '2025-01-10', '09:00', now)).toEqual({
+      dueDate: '2025-01-15',
+      dueTime: '11:30',
+    });
+    expect(getSnoozedDueDate('hour', '2025-01-15', undefined, now)).toEqual({
+      dueDate: '2025-01-15',
+      dueTime: '11:30',
+    });
+  });
+
+  it('moves a task a day, counting overdue tasks from today', () => {
+    expect(getSnoozedDueDate('day', '2025-01-20', '09:00', now)).toEqual({
+      dueDate: '2025-01-21',
+      dueTime: '09:00',
+    });
+    expect(getSnoozedDueDate('day', '2025-01-10', undefined, now)).toEqual({ dueDate: '2025-01-16' });
+  });
+
+  it('moves a task to the next Saturday', () => {
+    expect(getSnoozedDueDate('weekend', '2025-01-15', undefined, now).dueDate).toBe('2025-01-18');
+    expect(getSnoozedDueDate('weekend', '2025-01-18', undefined, now).dueDate).toBe('2025-01-25');
+    expect(getSnoozedDueDate('weekend', '2025-01-01', undefined, now).dueDate).toBe('2025-01-18');
+  });
+});
+
+describe.each([
+  ['America/New_York', '2025-01-15T05:00:00.000Z'],
+  ['Asia/Tokyo', '2025-01-14T15:00:00.000Z'],
+  ['Pacific/Kiritimati', '2025-01-14T10:00:00.000Z'],
+  ['Pacific/Pago_Pago', '2025-01-15T11:00:00.000Z'],
+])('local dates in %s', (timeZone, midnight) => {
+  beforeAll(() => setTimeZone(timeZone));
+  afterAll(() => setTimeZone());
+
+  it('parses calendar dates and times as local time', () => {
+    expect(parseLocalDate('2025-01-15').toISOString()).toBe(midnight);
+    expect(parseLocalDate('2025-01-15', '21:30').getHours()).toBe(21);
+  });
+
+  it('puts instants on the local day they fall on', () => {
+    expect(getLocalDateOfInstant(midnight)).toBe('2025-01-15');
+    expect(getLocalDateOfInstant(new Date(Date.parse(midnight) - 1).toISOString())).toBe('2025-01-14');
+    expect(getLocalDateOfInstant(parseLocalDate('2025-01-15', '23:59').toISOString())).toBe('2025-01-15');
+  });
+
+  it('bounds local days with instants', () => {
+    const { start, end } = getLocalDayRange('2025-01-15', '2025-01-16');
+    expect(start).toBe(midnight);
+    expect(end).toBe(parseLocalDate('2025-01-17').toISOString());
+    expect(Date.parse(end) - Date.parse(start)).toBe(2 * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('getLocalDayRange across DST', () => {
+  afterAll(() => setTimeZone());
+
+  it('spans 23 and 25 hour days', () => {
+    setTimeZone('America/New_York');
+    const hours = (date: string) => {
+      const { start, end } = getLocalDayRange(date);
+      return (Date.parse(end) - Date.parse(start)) / (60 * 60 * 1000);
+    };
+
+    expect(hours('2025-03-09')).toBe(23);
+    expect(hours('2025-11-02')).toBe(25);
+  });
+});
+
+describe('fixed time zones', () => {
+  beforeAll(() => setTimeZone('America/New_York'));
+  afterAll(() => setTimeZone());
+
+  it('reads due times on the wall clock of the task zone', () => {
+    expect(parseLocalDate('2025-01-15', '14:00', 'Europe/London').toISOString()).toBe('2025-01-15T14:00:00.000Z');
+    expect(parseLocalDate('2025-07-15', '14:00', 'Europe/London').toISOString()).toBe('2025-07-15T13:00:00.000Z');
+    expect(parseLocalDate('2025-01-15', '08:00', 'Asia/Tokyo').toISOString()).toBe('2025-01-14T23:00:00.000Z');
+  });
+
+  it('handles times around DST transitions in the task zone', () => {
+    // 01:30 does not exist in London on 2025-03-30 and happens twice on 2025-10-26
+    expect(parseLocalDate('2025-03-30', '01:30', 'Europe/London').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    expect(parseLocalDate('2025-03-30', '03:00', 'Europe/London').toISOString()).toBe('2025-03-30T02:00:00.000Z');
+    expect(getWallClock(parseLocalDate('2025-10-26', '01:30', 'Europe/London'), 'Europe/London')).toEqual({
+      date: '2025-10-26',
+      time: '01:30',
+    });
+  });
+
+  it('converts instants to the wall clock of a zone', () => {
+    const instant = new Date('2025-01-15T02:30:00.000Z');
+    expect(getWallClock(instant)).toEqual({ date: '2025-01-14', time: '21:30' });
+    expect(getWallClock(instant, 'Europe/London')).toEqual({ date: '2025-01-15', time: '02:30' });
+    expect(getWallClock(instant, 'Asia/Kolkata')).toEqual({ date: '2025-01-15', time: '08:00' });
+  });
+
+  it('ends untimed days at midnight in the task zone', () => {
+    expect(getDueDateTime('2025-01-15', undefined, 'Europe/London').toISOString()).toBe('2025-01-15T23:59:59.999Z');
+    expect(getDueDateTime('2025-01-15').toISOString()).toBe('2025-01-16T04:59:59.999Z');
+  });
+
+  it('shows fixed-zone times on the device clock as well', () => {
+    expect(formatDueTime('2025-01-15', '14:00')).toBe('2:00 PM');
+    expect(formatDueTime('2025-01-15', '14:00', 'America/New_York')).toBe('2:00 PM');
+    expect(formatDueTime('2025-01-15', '14:00', 'Europe/London')).toBe('9:00 AM (2:00 PM GMT)');
+  });
+
+  it('checks past due against the task zone', () => {
+    const inOneHour = new Date(Date.now() + 60 * 60 * 1000);
+    const { date, time } = getWallClock(inOneHour, 'Pacific/Pago_Pago');
+
+    expect(isPastDue(date, time, 'Pacific/Pago_Pago')).toBe(false);
+    // The same wall clock time came 20 hours earlier in Tokyo
+    expect(isPastDue(date, time, 'Asia/Tokyo')).toBe(true);
+  });
+
+  it('snoozes on the wall clock of the task zone', () => {
+    const newYorkMorning = new Date('2025-01-15T15:30:00.000Z'); // 10:30 in New York
+    expect(getSnoozedDueDate('hour', '2025-01-15', '09:00', newYorkMorning, 'Europe/London')).toEqual({
+      dueDate: '2025-01-15',
+      dueTime: '16:30',
+    });
+    expect(getSnoozedDueDate('day', '2025-01-10', '09:00', newYorkMorning, 'Asia/Tokyo')).toEqual({
+      dueDate: '2025-01-17',
+      dueTime: '09:00',
+    });
+  });
+});
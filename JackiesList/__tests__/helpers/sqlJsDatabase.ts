@@ -0,0 +1,66 @@
+import fs from 'fs';
+import initSqlJs, { Database } from 'sql.js';
+import { runTransaction, SqlRow, StorageAdapter } from '../../src/services/storage';
+
+/**
+ * In-memory SQLite database for Jest, a storage adapter that services and
+ * migrations can run against real SQL with in Node.
+ */
+export interface TestDatabase extends StorageAdapter {
+  raw: Database;
+}
+
+let sqlJs: Awaited<ReturnType<typeof initSqlJs>> | null = null;
+
+export const openTestDatabase = async (): Promise<TestDatabase> => {
+  if (!sqlJs) {
+    sqlJs = await initSqlJs({
+      wasmBinary: fs.readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm')),
+    });
+  }
+
+  const raw = new sqlJs.Database();
+
+  const executeSql: StorageAdapter['executeSql'] = async <Row extends SqlRow>(
+    statement: string,
+    params: unknown[] = []
+  ) => {
+    const statementHandle = raw.prepare(statement);
+    const rows: Row[] = [];
+
+    try {
+      statementHandle.bind(
+        params.map(value => {
+          if (value === undefined) return null;
+          if (typeof value === 'boolean') return value ? 1 : 0;
+          return value as string | number | null;
+        })
+      );
+      while (statementHandle.step()) {
+        rows.push(statementHandle.getAsObject() as Row);
+      }
+    } finally {
+      statementHandle.free();
+    }
+
+    const rowsAffected = raw.getRowsModified();
+
+    return [
+      {
+        rows: {
+          length: rows.length,
+          item: (index: number) => rows[index],
+          raw: () => rows,
+        },
+        rowsAffected,
+      },
+    ];
+  };
+
+  return {
+    executeSql,
+    transaction: work => runTransaction(executeSql, work),
+    close: async () => raw.close(),
+    raw,
+  };
+};
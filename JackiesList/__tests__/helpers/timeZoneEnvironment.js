@@ -0,0 +1,33 @@
+/**
+ * Test environment for tests that run under several time zones.
+ *
+ * Tests see a copy of `process.env`, so setting TZ there has no effect. This
+ * environment adds a `setTimeZone` global that changes the time zone of the
+ * process running the tests (or restores the original one when called
+ * without a zone), and restores the original one after the test file.
+ */
+const NodeEnv = require('jest-environment-node').TestEnvironment;
+
+module.exports = class TimeZoneEnvironment extends NodeEnv {
+  // Same as the react-native preset's environment
+  customExportConditions = ['require', 'react-native'];
+
+  constructor(config, context) {
+    super(config, context);
+    this.originalTimeZone = process.env.TZ;
+    this.global.setTimeZone = timeZone => this.setTimeZone(timeZone ?? this.originalTimeZone);
+  }
+
+  setTimeZone(timeZone) {
+    if (timeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = timeZone;
+    }
+  }
+
+  async teardown() {
+    this.setTimeZone(this.originalTimeZone);
+    await super.teardown();
+  }
+};
@@ -0,0 +1,110 @@
+import { openTestDatabase, TestDatabase } from './helpers/sqlJsDatabase';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import database from '../src/services/database';
+import horizonManager from '../src/services/horizonManager';
+import taskService from '../src/services/taskService';
+import { updateSettings } from '../src/services/settingsService';
+import { addDays, getDateString } from '../src/utils/date';
+
+let testDb: TestDatabase;
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const today = getDateString(new Date());
+
+const getInstanceDates = async (seriesId: string) =>
+  (await database.getSeriesInstances(seriesId)).map(instance => instance.occurrenceDate);
+
+const createDailySeries = () =>
+  taskService.createTask({
+    title: 'Feed the cat',
+    type: 'chore',
+    dueDate: today,
+    isRecurring: true,
+    recurrencePattern: 'daily',
+    priority: 'medium',
+  });
+
+describe('HorizonManager', () => {
+  beforeEach(async () => {
+    testDb = await openTestDatabase();
+    await database.init(testDb);
+    await updateSettings({ recurringTaskGenerationDays: 7 });
+  });
+
+  afterEach(() => {
+    testDb.close();
+  });
+
+  it('generates a new series up to the horizon and records it', async () => {
+    const { seriesId } = await createDailySeries();
+    const series = await taskService.getSeries(seriesId!);
+
+    expect(await getInstanceDates(seriesId!)).toHaveLength(8);
+    expect(series!.generatedThrough).toBe(addDays(today, 7));
+  });
+
+  it('does not create duplicates when run repeatedly', async () => {
+    const { seriesId } = await createDailySeries();
+    const before = await getInstanceDates(seriesId!);
+
+    expect(await horizonManager.extendAllSeries()).toEqual([]);
+    await Promise.all([horizonManager.extendAllSeries(), horizonManager.extendAllSeries()]);
+
+    expect(await getInstanceDates(seriesId!)).toEqual(before);
+  });
+
+  it('extends every series when the window grows', async () => {
+    const { seriesId } = await createDailySeries();
+    await updateSettings({ recurringTaskGenerationDays: 14 });
+
+    const created = await horizonManager.extendAllSeries();
+
+    expect(created.map(task => task.dueDate)).toEqual(
+      Array.from({ length: 7 }, (_, i) => addDays(today, 8 + i))
+    );
+    expect(await getInstanceDates(seriesId!)).toHaveLength(15);
+    expect((await taskService.getSeries(seriesId!))!.generatedThrough).toBe(addDays(today, 14));
+  });
+
+  it('skips dates that already have an instance', async () => {
+    const { seriesId } = await createDailySeries();
+    // A lost generated-through date makes the next run cover the same dates again
+    await database.updateSeries(seriesId!, { generatedThrough: undefined });
+
+    const created = await horizonManager.extendAllSeries();
+
+    expect(created).toEqual([]);
+    expect(await getInstanceDates(seriesId!)).toHaveLength(8);
+  });
+
+  it('stops at the series end date', async () => {
+    const { seriesId } = await createDailySeries();
+    await database.updateSeries(seriesId!, { untilDate: addDays(today, 10) });
+    await updateSettings({ recurringTaskGenerationDays: 30 });
+
+    await horizonManager.extendAllSeries();
+
+    expect(await getInstanceDates(seriesId!)).toHaveLength(11);
+    expect((await taskService.getSeries(seriesId!))!.generatedThrough).toBe(addDays(today, 10));
+  });
+
+  it('extends a series as it is now, not as it was first read', async () => {
+    const { seriesId } = await createDailySeries();
+    const stale = (await taskService.getSeries(seriesId!))!;
+    // Edited and ended while the extension was running
+    await taskService.updateSeries(seriesId!, { title: 'Feed the dog', untilDate: addDays(today, 10) });
+    await updateSettings({ recurringTaskGenerationDays: 30 });
+
+    const created = await horizonManager.extendSeries(stale);
+
+    expect(created.map(task => task.dueDate)).toEqual([8, 9, 10].map(days => addDays(today, days)));
+    expect(created.every(task => task.title === 'Feed the dog')).toBe(true);
+    expect((await taskService.getSeries(seriesId!))!.generatedThrough).toBe(addDays(today, 10));
+  });
+});
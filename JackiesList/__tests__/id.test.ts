@@ -0,0 +1,69 @@
+import { generateId } from '../src/utils/id';
+
+const UUID_V7 = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const getTimestamp = (id: string) => parseInt(id.slice(0, 8) + id.slice(9, 13), 16);
+
+// Park-Miller generator, so a failing run can be repeated from its seed
+const createRandom = (seed: number) => () => {
+  seed = (seed * 48271) % 2147483647;
+  return seed / 2147483647;
+};
+
+describe('generateId', () => {
+  let clock: number;
+
+  beforeEach(() => {
+    clock = Date.parse('2025-06-01T12:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('makes time-ordered UUIDv7 ids', () => {
+    const first = generateId();
+    clock += 1000;
+    const second = generateId();
+
+    expect(first).toMatch(UUID_V7);
+    expect(getTimestamp(second)).toBe(clock);
+    expect(second > first).toBe(true);
+  });
+
+  it('stays unique and ordered when a whole series is created within one millisecond', () => {
+    const ids = Array.from({ length: 10000 }, () => generateId());
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  // Each run is a burst of creations on a clock that stalls, jumps ahead and
+  // sometimes goes backwards, as device clocks do
+  it.each(Array.from({ length: 100 }, (_, run) => run + 1))(
+    'stays unique and ordered under burst creation (seed %i)',
+    seed => {
+      const random = createRandom(seed);
+      const ids: string[] = [];
+
+      for (let i = 0; i < 500; i++) {
+        const move = random();
+        if (move < 0.1) {
+          clock -= Math.floor(random() * 5000);
+        } else if (move < 0.4) {
+          clock += Math.floor(random() * 50);
+        }
+        const id = generateId();
+
+        expect(id).toMatch(UUID_V7);
+        // Never stamped earlier than the clock it was made on
+        expect(getTimestamp(id)).toBeGreaterThanOrEqual(clock);
+        ids.push(id);
+      }
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect([...ids].sort()).toEqual(ids);
+    }
+  );
+});
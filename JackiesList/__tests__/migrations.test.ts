@@ -0,0 +1,267 @@
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  migrations,
+  runMigrations,
+} from '../src/services/migrations';
+import { openTestDatabase, TestDatabase } from './helpers/sqlJsDatabase';
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const getRows = async (db: TestDatabase, query: string, params: any[] = []) => {
+  const [result] = await db.executeSql(query, params);
+  return result.rows.raw();
+};
+
+const describeSchema = async (db: TestDatabase) => {
+  const objects = await getRows(
+    db,
+    `SELECT type, name, tbl_name FROM sqlite_master
+     WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+     ORDER BY type, name`
+  );
+
+  const schema: Record<string, unknown> = {};
+  for (const object of objects) {
+    if (object.type === 'table') {
+      schema[`table:${object.name}`] = await getRows(db, `PRAGMA table_info(${object.name})`);
+    } else {
+      schema[`${object.type}:${object.name}`] = object.tbl_name;
+    }
+  }
+  return schema;
+};
+
+// Rows written with the columns every schema version has had since version 1
+const seedFixture = async (db: TestDatabase) => {
+  const now = '2025-01-15T10:00:00.000Z';
+  await db.executeSql(
+    'INSERT INTO categories (id, name, color, icon) VALUES (?, ?, ?, ?)',
+    ['cat-1', 'Home', '#2196F3', 'home']
+  );
+  await db.executeSql(
+    `INSERT INTO tasks (
+      id, title, description, type, due_date, due_time,
+      is_recurring, recurrence_pattern, recurrence_interval,
+      priority, category_id, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ['task-1', 'Change furnace filter', 'Size 20x25', 'chore', '2025-01-15', '09:30', 0, null, null, 'high', 'cat-1', now, now]
+  );
+  await db.executeSql(
+    'INSERT INTO task_completions (id, task_id, completed_at, notes) VALUES (?, ?, ?, ?)',
+    ['completion-1', 'task-1', now, 'Done early']
+  );
+};
+
+const expectFixturePreserved = async (db: TestDatabase) => {
+  const [category] = await getRows(db, 'SELECT * FROM categories WHERE id = ?', ['cat-1']);
+  expect(category).toMatchObject({ name: 'Home', color: '#2196F3', icon: 'home' });
+
+  const [task] = await getRows(db, 'SELECT * FROM tasks WHERE id = ?', ['task-1']);
+  expect(task).toMatchObject({
+    title: 'Change furnace filter',
+    description: 'Size 20x25',
+    type: 'chore',
+    due_date: '2025-01-15',
+    due_time: '09:30',
+    priority: 'high',
+    category_id: 'cat-1',
+  });
+
+  const [completion] = await getRows(db, 'SELECT * FROM task_completions WHERE id = ?', ['completion-1']);
+  expect(completion).toMatchObject({ task_id: 'task-1', notes: 'Done early' });
+};
+
+describe('schema migrations', () => {
+  let db: TestDatabase;
+
+  beforeEach(async () => {
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('has contiguous, ascending migration versions', () => {
+    migrations.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+    expect(LATEST_SCHEMA_VERSION).toBe(migrations.length);
+  });
+
+  it('migrates a fresh database to the latest version', async () => {
+    expect(await getSchemaVersion(db)).toBe(0);
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('is a no-op when the schema is already current', async () => {
+    await runMigrations(db);
+    const before = await describeSchema(db);
+
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(before);
+    expect(await getRows(db, 'SELECT version FROM schema_version')).toHaveLength(migrations.length);
+  });
+
+  it('adopts a database created before migrations existed', async () => {
+    // Pre-migration installs ran the version 1 DDL without recording a version
+    for (const statement of migrations[0].statements) {
+      await db.executeSql(statement);
+    }
+    await seedFixture(db);
+
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    await expectFixturePreserved(db);
+  });
+
+  describe('upgrading a fixture database from every past version', () => {
+    let latestSchema: Record<string, unknown>;
+
+    beforeAll(async () => {
+      const fresh = await openTestDatabase();
+      await runMigrations(fresh);
+      latestSchema = await describeSchema(fresh);
+      fresh.close();
+    });
+
+    it.each(migrations.map(migration => migration.version))(
+      'upgrades from version %i',
+      async fromVersion => {
+        await runMigrations(db, migrations.slice(0, fromVersion));
+        expect(await getSchemaVersion(db)).toBe(fromVersion);
+        await seedFixture(db);
+
+        expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+        expect(await describeSchema(db)).toEqual(latestSchema);
+        await expectFixturePreserved(db);
+      }
+    );
+  });
+
+  it('promotes legacy recurring tasks to series and links their instances', async () => {
+    await runMigrations(db, migrations.slice(0, 1));
+
+    const insertTask = (id: string, title: string, dueDate: string, isRecurring: boolean) =>
+      db.executeSql(
+        `INSERT INTO tasks (
+          id, title, type, due_date, is_recurring, recurrence_pattern,
+          priority, created_at, updated_at
+        ) VALUES (?, ?, 'chore', ?, ?, ?, 'medium', ?, ?)`,
+        [id, title, dueDate, isRecurring ? 1 : 0, isRecurring ? 'weekly' : null, dueDate, dueDate]
+      );
+
+    await insertTask('parent', 'Water plants', '2025-03-01', true);
+    await insertTask('instance-1', 'Water plants', '2025-03-08', false);
+    await insertTask('instance-2', 'Water plants', '2025-03-15', false);
+    await insertTask('unrelated', 'Pay rent', '2025-03-08', false);
+
+    await runMigrations(db);
+
+    expect(await getRows(db, 'SELECT * FROM task_series')).toEqual([
+      expect.objectContaining({
+        id: 'parent',
+        title: 'Water plants',
+        recurrence_pattern: 'weekly',
+        start_date: '2025-03-01',
+      }),
+    ]);
+    expect(
+      await getRows(db, 'SELECT id, series_id, is_recurring FROM tasks ORDER BY id')
+    ).toEqual([
+      { id: 'instance-1', series_id: 'parent', is_recurring: 0 },
+      { id: 'instance-2', series_id: 'parent', is_recurring: 0 },
+      { id: 'parent', series_id: 'parent', is_recurring: 0 },
+      { id: 'unrelated', series_id: null, is_recurring: 0 },
+    ]);
+  });
+
+  it('gives duplicate legacy instances a single occurrence slot', async () => {
+    await runMigrations(db, migrations.slice(0, 4));
+    await db.executeSql(
+      `INSERT INTO task_series (
+        id, title, type, recurrence_pattern, start_date, created_at, updated_at
+      ) VALUES ('series-1', 'Water plants', 'chore', 'weekly', '2025-03-01', '2025-03-01', '2025-03-01')`
+    );
+    for (const [id, dueDate] of [['a', '2025-03-01'], ['b', '2025-03-08'], ['c', '2025-03-08']]) {
+      await db.executeSql(
+        `INSERT INTO tasks (id, title, type, due_date, series_id, created_at, updated_at)
+         VALUES (?, 'Water plants', 'chore', ?, 'series-1', ?, ?)`,
+        [id, dueDate, dueDate, dueDate]
+      );
+    }
+
+    await runMigrations(db);
+
+    expect(await getRows(db, 'SELECT id, occurrence_date FROM tasks ORDER BY id')).toEqual([
+      { id: 'a', occurrence_date: '2025-03-01' },
+      { id: 'b', occurrence_date: '2025-03-08' },
+      { id: 'c', occurrence_date: null },
+    ]);
+    expect(await getRows(db, 'SELECT generated_through FROM task_series')).toEqual([
+      { generated_through: '2025-03-08' },
+    ]);
+  });
+
+  it('indexes existing tasks and completion notes for search', async () => {
+    await runMigrations(db, migrations.slice(0, 15));
+    await seedFixture(db);
+    await runMigrations(db);
+
+    expect(
+      await getRows(db, "SELECT task_id, notes FROM task_search WHERE task_search MATCH 'furn* earl*'")
+    ).toEqual([{ task_id: 'task-1', notes: 'Done early' }]);
+  });
+
+  it('applies the fallback statements of a migration whose statements fail', async () => {
+    await runMigrations(db);
+
+    const withFallback = [
+      ...migrations,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: 'Needs an extension',
+        statements: [
+          'CREATE TABLE preferred_table (id TEXT PRIMARY KEY)',
+          'CREATE VIRTUAL TABLE unsupported USING missing_module(a)',
+        ],
+        fallbackStatements: ['CREATE TABLE fallback_table (id TEXT PRIMARY KEY)'],
+      },
+    ];
+
+    expect(await runMigrations(db, withFallback)).toBe(LATEST_SCHEMA_VERSION + 1);
+    expect(
+      await getRows(db, "SELECT name FROM sqlite_master WHERE name IN ('preferred_table', 'fallback_table')")
+    ).toEqual([{ name: 'fallback_table' }]);
+  });
+
+  it('rolls back a failing migration and keeps the previous version', async () => {
+    await runMigrations(db);
+    await seedFixture(db);
+
+    const failing = [
+      ...migrations,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: 'Broken migration',
+        statements: [
+          'CREATE TABLE partial_table (id TEXT PRIMARY KEY)',
+          "UPDATE tasks SET title = 'Changed'",
+          'ALTER TABLE missing_table ADD COLUMN nope TEXT',
+        ],
+      },
+    ];
+
+    await expect(runMigrations(db, failing)).rejects.toThrow(
+      `Migration ${LATEST_SCHEMA_VERSION + 1} (Broken migration) failed`
+    );
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(
+      await getRows(db, "SELECT name FROM sqlite_master WHERE name = 'partial_table'")
+    ).toHaveLength(0);
+    await expectFixturePreserved(db);
+  });
+});
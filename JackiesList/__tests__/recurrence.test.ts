@@ -0,0 +1,479 @@
+/**
+ * @jest-environment ./__tests__/helpers/timeZoneEnvironment.js
+ */
+import {
+  addMonthsClamped,
+  createSeriesInstance,
+  describeRRule,
+  formatRecurrenceText,
+  formatRRule,
+  getNextRecurrenceDate,
+  getNextSeriesDate,
+  getOccurrenceDates,
+  getRecurrenceDate,
+  getSeriesOccurrenceDates,
+  getSeriesOccurrencePosition,
+  iterateOccurrences,
+  iterateRRule,
+  parseRRule,
+} from '../src/utils/recurrence';
+import { addDays, getDateString } from '../src/utils/date';
+import { RecurrencePattern, TaskSeries } from '../src/types';
+
+// Provided by the test environment; no zone restores the original one
+declare function setTimeZone(timeZone?: string): void;
+
+const date = (value: string) => new Date(value + 'T00:00:00');
+
+// The first `limit` occurrences of an RRULE string as YYYY-MM-DD strings
+const occurrences = (rrule: string, start: string, limit = 10): string[] => {
+  const dates: string[] = [];
+  for (const occurrence of iterateRRule(parseRRule(rrule), date(start))) {
+    dates.push(getDateString(occurrence));
+    if (dates.length >= limit) break;
+  }
+  return dates;
+};
+
+// A weekly series starting on Monday 2025-01-06
+const weeklySeries = (fields: Partial<TaskSeries>): TaskSeries => ({
+  id: '1',
+  title: 'Physical therapy',
+  type: 'appointment',
+  priority: 'medium',
+  recurrencePattern: 'weekly',
+  recurrenceMode: 'schedule',
+  startDate: '2025-01-06',
+  createdAt: '',
+  updatedAt: '',
+  ...fields,
+});
+
+// The first `limit` occurrences of a fixed pattern as YYYY-MM-DD strings
+const patternDates = (
+  pattern: RecurrencePattern,
+  start: string,
+  limit: number,
+  recurrenceInterval?: number
+): string[] => {
+  const dates: string[] = [];
+  for (const occurrence of iterateOccurrences(date(start), { recurrencePattern: pattern, recurrenceInterval })) {
+    dates.push(getDateString(occurrence));
+    if (dates.length >= limit) break;
+  }
+  return dates;
+};
+
+describe('fixed patterns', () => {
+  it.each([
+    ['daily', undefined, ['2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02']],
+    ['weekly', undefined, ['2025-01-30', '2025-02-06', '2025-02-13', '2025-02-20']],
+    ['biweekly', undefined, ['2025-01-30', '2025-02-13', '2025-02-27', '2025-03-13']],
+    ['custom', 10, ['2025-01-30', '2025-02-09', '2025-02-19', '2025-03-01']],
+    ['monthly', undefined, ['2025-01-30', '2025-02-28', '2025-03-30', '2025-04-30']],
+    ['quarterly', undefined, ['2025-01-30', '2025-04-30', '2025-07-30', '2025-10-30']],
+    ['annually', undefined, ['2025-01-30', '2026-01-30', '2027-01-30', '2028-01-30']],
+  ] as const)('repeats %s', (pattern, interval, expected) => {
+    expect(patternDates(pattern, '2025-01-30', 4, interval)).toEqual(expected);
+  });
+
+  it('stops after the start date when a custom pattern has no interval', () => {
+    expect(patternDates('custom', '2025-01-30', 4)).toEqual(['2025-01-30']);
+    expect(getNextRecurrenceDate(date('2025-01-30'), 'custom')).toEqual(date('2025-01-30'));
+  });
+
+  it('derives every occurrence from the anchor and its index', () => {
+    expect(getDateString(getRecurrenceDate(date('2025-01-31'), 'monthly', undefined, 0))).toBe('2025-01-31');
+    expect(getDateString(getRecurrenceDate(date('2025-01-31'), 'monthly', undefined, 2))).toBe('2025-03-31');
+    expect(getDateString(getRecurrenceDate(date('2025-01-31'), 'custom', 3, 10))).toBe('2025-03-02');
+    expect(getDateString(getRecurrenceDate(date('2025-01-31'), 'quarterly', undefined, 4))).toBe('2026-01-31');
+  });
+});
+
+describe('month ends', () => {
+  it('clamps to the last day of shorter months and returns to the 31st', () => {
+    expect(patternDates('monthly', '2025-01-31', 8)).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+      '2025-05-31',
+      '2025-06-30',
+      '2025-07-31',
+      '2025-08-31',
+    ]);
+  });
+
+  it('keeps the 30th and 29th through February', () => {
+    expect(patternDates('monthly', '2025-01-30', 3)).toEqual(['2025-01-30', '2025-02-28', '2025-03-30']);
+    expect(patternDates('monthly', '2025-01-29', 3)).toEqual(['2025-01-29', '2025-02-28', '2025-03-29']);
+  });
+
+  it('clamps quarterly occurrences', () => {
+    expect(patternDates('quarterly', '2024-11-30', 5)).toEqual([
+      '2024-11-30',
+      '2025-02-28',
+      '2025-05-30',
+      '2025-08-30',
+      '2025-11-30',
+    ]);
+    expect(patternDates('quarterly', '2025-08-31', 3)).toEqual(['2025-08-31', '2025-11-30', '2026-02-28']);
+  });
+
+  it('clamps a single step from the end of a month', () => {
+    expect(getDateString(getNextRecurrenceDate(date('2025-01-31'), 'monthly'))).toBe('2025-02-28');
+    expect(getDateString(getNextRecurrenceDate(date('2025-03-31'), 'monthly'))).toBe('2025-04-30');
+    expect(getDateString(getNextRecurrenceDate(date('2025-12-31'), 'monthly'))).toBe('2026-01-31');
+    expect(getDateString(getNextRecurrenceDate(date('2025-11-30'), 'quarterly'))).toBe('2026-02-28');
+  });
+
+  it('adds and subtracts months across year ends', () => {
+    expect(getDateString(addMonthsClamped(date('2025-12-31'), 2))).toBe('2026-02-28');
+    expect(getDateString(addMonthsClamped(date('2025-03-31'), -1))).toBe('2025-02-28');
+    expect(getDateString(addMonthsClamped(date('2025-01-15'), -13))).toBe('2023-12-15');
+  });
+
+  it('lists clamped occurrences in a date range', () => {
+    expect(
+      getOccurrenceDates(
+        date('2025-01-31'),
+        { recurrencePattern: 'monthly' },
+        date('2025-02-01'),
+        date('2025-06-30')
+      ).map(getDateString)
+    ).toEqual(['2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30']);
+  });
+});
+
+describe('leap years', () => {
+  it('returns a Feb 29 yearly series to Feb 29 in leap years', () => {
+    expect(patternDates('annually', '2024-02-29', 5)).toEqual([
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29',
+    ]);
+  });
+
+  it('lands on Feb 29 from the end of January in a leap year', () => {
+    expect(patternDates('monthly', '2024-01-31', 3)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+    expect(getDateString(getNextRecurrenceDate(date('2024-01-30'), 'monthly'))).toBe('2024-02-29');
+  });
+
+  it('skips century years that are not leap years', () => {
+    expect(getDateString(getRecurrenceDate(date('2096-02-29'), 'annually', undefined, 4))).toBe('2100-02-28');
+    expect(getDateString(getRecurrenceDate(date('2096-02-29'), 'annually', undefined, 104))).toBe('2200-02-28');
+    expect(getDateString(getRecurrenceDate(date('1996-02-29'), 'annually', undefined, 4))).toBe('2000-02-29');
+  });
+
+  it('counts a daily series through Feb 29', () => {
+    expect(patternDates('daily', '2024-02-28', 3)).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+    expect(patternDates('daily', '2025-02-28', 2)).toEqual(['2025-02-28', '2025-03-01']);
+  });
+
+  it('finds Feb 29 with a yearly RRULE only in leap years', () => {
+    expect(occurrences('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29', '2023-01-01', 3)).toEqual([
+      '2024-02-29',
+      '2028-02-29',
+      '2032-02-29',
+    ]);
+  });
+});
+
+// Clocks change on these dates, including at midnight in Santiago and by half
+// an hour on Lord Howe Island
+describe.each([
+  ['America/New_York', '2025-03-09', '2025-11-02'],
+  ['Europe/London', '2025-03-30', '2025-10-26'],
+  ['America/Santiago', '2025-09-07', '2025-04-06'],
+  ['Australia/Lord_Howe', '2025-10-05', '2025-04-06'],
+])('DST boundaries in %s', (timeZone, springForward, fallBack) => {
+  beforeAll(() => setTimeZone(timeZone));
+  afterAll(() => setTimeZone());
+
+  it('runs in the time zone', () => {
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(timeZone);
+  });
+
+  it.each([springForward, fallBack])('repeats daily through %s without skipping a day', boundary => {
+    const start = addDays(boundary, -3);
+    expect(patternDates('daily', start, 7)).toEqual(Array.from({ length: 7 }, (_, i) => addDays(start, i)));
+  });
+
+  it.each([springForward, fallBack])('keeps the weekday across %s', boundary => {
+    const start = addDays(boundary, -14);
+    expect(patternDates('weekly', start, 5)).toEqual([0, 7, 14, 21, 28].map(days => addDays(start, days)));
+    expect(occurrences('FREQ=WEEKLY', start, 5)).toEqual([0, 7, 14, 21, 28].map(days => addDays(start, days)));
+  });
+
+  it('keeps the day of month across both changes', () => {
+    expect(patternDates('monthly', '2025-01-31', 12).map(value => value.slice(8))).toEqual([
+      '31', '28', '31', '30', '31', '30', '31', '31', '30', '31', '30', '31',
+    ]);
+  });
+
+  it('lists every day of the year exactly once', () => {
+    const dates = getOccurrenceDates(
+      date('2025-01-01'),
+      { recurrencePattern: 'daily' },
+      date('2025-01-01'),
+      date('2025-12-31')
+    ).map(getDateString);
+
+    expect(dates).toHaveLength(365);
+    expect(new Set(dates).size).toBe(365);
+    expect(dates[dates.length - 1]).toBe('2025-12-31');
+  });
+
+  it('generates series occurrences on the boundary itself', () => {
+    const series = weeklySeries({ recurrencePattern: 'daily', startDate: addDays(springForward, -1) });
+    expect(getSeriesOccurrenceDates(series, springForward, addDays(springForward, 1))).toEqual([
+      springForward,
+      addDays(springForward, 1),
+    ]);
+  });
+});
+
+describe('RRULE parsing', () => {
+  it('parses every supported part', () => {
+    expect(
+      parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR,MO;BYMONTHDAY=1,-1;BYMONTH=3,6;BYSETPOS=-1;COUNT=5')
+    ).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 'TU', ordinal: 2 }, { weekday: 'FR', ordinal: -1 }, { weekday: 'MO' }],
+      byMonthDay: [1, -1],
+      byMonth: [3, 6],
+      bySetPos: [-1],
+      count: 5,
+    });
+    expect(parseRRule('FREQ=DAILY;UNTIL=20250131T235959Z')).toEqual({ freq: 'DAILY', until: '2025-01-31' });
+  });
+
+  it('round-trips through formatRRule', () => {
+    const rule = 'FREQ=YEARLY;INTERVAL=2;BYMONTH=11;BYDAY=4TH;UNTIL=20301231';
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+  });
+
+  it.each([
+    ['INTERVAL=2', 'FREQ is required'],
+    ['FREQ=HOURLY', 'Unsupported RRULE FREQ'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Invalid RRULE BYDAY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=0', 'Invalid RRULE BYMONTHDAY'],
+    ['FREQ=YEARLY;BYMONTH=13', 'Invalid RRULE BYMONTH'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20250101', 'COUNT and UNTIL'],
+    ['FREQ=DAILY;BYHOUR=9', 'Unsupported RRULE part'],
+  ])('rejects %s', (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(message);
+  });
+});
+
+describe('RRULE occurrences', () => {
+  it('repeats weekly on several weekdays', () => {
+    expect(occurrences('FREQ=WEEKLY;BYDAY=MO,WE,FR', '2025-01-01', 5)).toEqual([
+      '2025-01-01',
+      '2025-01-03',
+      '2025-01-06',
+      '2025-01-08',
+      '2025-01-10',
+    ]);
+  });
+
+  it('repeats every 3 weeks on Saturday', () => {
+    expect(occurrences('FREQ=WEEKLY;INTERVAL=3;BYDAY=SA', '2025-01-01', 3)).toEqual([
+      '2025-01-04',
+      '2025-01-25',
+      '2025-02-15',
+    ]);
+  });
+
+  it('defaults to the start date weekday, day of month and month', () => {
+    expect(occurrences('FREQ=WEEKLY', '2025-01-01', 2)).toEqual(['2025-01-01', '2025-01-08']);
+    expect(occurrences('FREQ=MONTHLY', '2025-01-15', 2)).toEqual(['2025-01-15', '2025-02-15']);
+    expect(occurrences('FREQ=YEARLY', '2025-03-10', 2)).toEqual(['2025-03-10', '2026-03-10']);
+  });
+
+  it('finds the 2nd Tuesday of the month', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=2TU', '2025-01-01', 3)).toEqual([
+      '2025-01-14',
+      '2025-02-11',
+      '2025-03-11',
+    ]);
+  });
+
+  it('finds the last weekday of the month with BYSETPOS', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2025-01-01', 5)).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+      '2025-05-30',
+    ]);
+  });
+
+  it('counts negative BYMONTHDAY values from the end of the month', () => {
+    expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=-1', '2024-01-15', 3)).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+    ]);
+  });
+
+  it('skips months that do not have the requested day', () => {
+    expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=31', '2025-01-01', 3)).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+  });
+
+  it('combines BYMONTH with an ordinal weekday', () => {
+    expect(occurrences('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', '2025-01-01', 3)).toEqual([
+      '2025-11-27',
+      '2026-11-26',
+      '2027-11-25',
+    ]);
+  });
+
+  it('stops after COUNT occurrences or at UNTIL', () => {
+    expect(occurrences('FREQ=DAILY;COUNT=3', '2025-01-01')).toEqual([
+      '2025-01-01',
+      '2025-01-02',
+      '2025-01-03',
+    ]);
+    expect(occurrences('FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250109', '2025-01-01')).toEqual([
+      '2025-01-02',
+      '2025-01-07',
+      '2025-01-09',
+    ]);
+  });
+
+  it('ends a rule that can never match instead of looping forever', () => {
+    expect(occurrences('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2025-01-01')).toEqual([]);
+  });
+
+  it('lists rule occurrences in a date range', () => {
+    expect(
+      getOccurrenceDates(
+        date('2025-01-01'),
+        { recurrencePattern: 'rrule', rrule: 'FREQ=MONTHLY;BYDAY=1MO' },
+        date('2025-02-01'),
+        date('2025-04-30')
+      ).map(getDateString)
+    ).toEqual(['2025-02-03', '2025-03-03', '2025-04-07']);
+  });
+});
+
+describe('RRULE summaries', () => {
+  it.each([
+    ['FREQ=DAILY', 'Every day'],
+    ['FREQ=WEEKLY;BYDAY=MO,WE,FR', 'Every week on Mon, Wed and Fri'],
+    ['FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', 'Every week on weekdays'],
+    ['FREQ=WEEKLY;INTERVAL=3;BYDAY=SA', 'Every 3 weeks on Saturday'],
+    ['FREQ=MONTHLY;BYDAY=2TU', 'Every month on the second Tuesday'],
+    ['FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', 'Every month on the last weekday'],
+    ['FREQ=MONTHLY;BYMONTHDAY=1,15', 'Every month on the 1st and 15th'],
+    ['FREQ=MONTHLY;BYMONTHDAY=-1', 'Every month on the last day'],
+    ['FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', 'Every year in November on the fourth Thursday'],
+    ['FREQ=MONTHLY;BYMONTHDAY=13;BYDAY=FR', 'Every month on the 13th if it is Friday'],
+    ['FREQ=DAILY;INTERVAL=2;COUNT=10', 'Every 2 days, 10 times'],
+    ['FREQ=WEEKLY;BYDAY=SU;UNTIL=20251231', 'Every week on Sunday, until Dec 31, 2025'],
+  ])('describes %s', (rule, text) => {
+    expect(describeRRule(parseRRule(rule))).toBe(text);
+  });
+
+  it('is used by formatRecurrenceText for rule patterns', () => {
+    expect(
+      formatRecurrenceText({ recurrencePattern: 'rrule', rrule: 'FREQ=MONTHLY;BYDAY=-1FR' })
+    ).toBe('Every month on the last Friday');
+    expect(formatRecurrenceText({ recurrencePattern: 'weekly' })).toBe('Weekly');
+  });
+});
+
+describe('completion-based recurrence', () => {
+  it.each([
+    [{ recurrencePattern: 'custom', recurrenceInterval: 3 }, 'Next due 3 days after completion'],
+    [{ recurrencePattern: 'daily' }, 'Next due 1 day after completion'],
+    [{ recurrencePattern: 'quarterly' }, 'Next due 3 months after completion'],
+  ] as const)('describes %j', (recurrence, text) => {
+    expect(formatRecurrenceText({ ...recurrence, recurrenceMode: 'completion' })).toBe(text);
+  });
+});
+
+describe('series end conditions', () => {
+  it('stops after the occurrence count', () => {
+    const series = weeklySeries({ occurrenceCount: 3 });
+    expect(getSeriesOccurrenceDates(series, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-06',
+      '2025-01-13',
+      '2025-01-20',
+    ]);
+    // The count runs from the start date, not the requested range
+    expect(getSeriesOccurrenceDates(series, '2025-01-10', '2025-12-31')).toEqual(['2025-01-13', '2025-01-20']);
+  });
+
+  it('stops at the end date', () => {
+    expect(getSeriesOccurrenceDates(weeklySeries({ untilDate: '2025-01-20' }), '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-06',
+      '2025-01-13',
+      '2025-01-20',
+    ]);
+  });
+
+  it('finds the position of an occurrence', () => {
+    expect(getSeriesOccurrencePosition(weeklySeries({ occurrenceCount: 10 }), '2025-01-27')).toEqual({
+      index: 4,
+      total: 10,
+    });
+    expect(getSeriesOccurrencePosition(weeklySeries({ untilDate: '2025-02-03' }), '2025-01-13')).toEqual({
+      index: 2,
+      total: 5,
+    });
+    expect(getSeriesOccurrencePosition(weeklySeries({}), '2025-01-13')).toEqual({ index: 2 });
+    expect(getSeriesOccurrencePosition(weeklySeries({}), '2025-01-14')).toBeNull();
+    expect(getSeriesOccurrencePosition(weeklySeries({ occurrenceCount: 2 }), '2025-01-20')).toBeNull();
+  });
+
+  it('describes the end in the recurrence text', () => {
+    expect(formatRecurrenceText({ recurrencePattern: 'weekly', occurrenceCount: 10 })).toBe('Weekly, 10 times');
+    expect(formatRecurrenceText({ recurrencePattern: 'monthly', untilDate: '2025-12-31' })).toBe(
+      'Monthly, until Dec 31, 2025'
+    );
+  });
+});
+
+describe('series exceptions and overrides', () => {
+  it('leaves out exception dates, which still count towards the occurrence count', () => {
+    const series = weeklySeries({ occurrenceCount: 3, exceptionDates: ['2025-01-13'] });
+
+    expect(getSeriesOccurrenceDates(series, '2025-01-01', '2025-12-31')).toEqual(['2025-01-06', '2025-01-20']);
+    expect(getSeriesOccurrencePosition(series, '2025-01-20')).toEqual({ index: 2, total: 2 });
+    expect(getSeriesOccurrencePosition(series, '2025-01-13')).toBeNull();
+  });
+
+  it('steps over exception dates when counting from a completion', () => {
+    const series = weeklySeries({ recurrenceMode: 'completion', exceptionDates: ['2025-01-13'] });
+
+    expect(getNextSeriesDate(series, '2025-01-06')).toBe('2025-01-20');
+    expect(getNextSeriesDate({ ...series, recurrencePattern: 'custom' }, '2025-01-06')).toBeNull();
+  });
+
+  it('applies an override to the instance of its occurrence', () => {
+    const series = weeklySeries({
+      dueTime: '09:00',
+      overrides: [{ occurrenceDate: '2025-01-13', dueDate: '2025-01-16', title: 'Physical therapy (Thursday)' }],
+    });
+
+    expect(createSeriesInstance(series, '2025-01-13')).toMatchObject({
+      title: 'Physical therapy (Thursday)',
+      dueDate: '2025-01-16',
+      dueTime: '09:00',
+      occurrenceDate: '2025-01-13',
+    });
+    expect(createSeriesInstance(series, '2025-01-20')).toMatchObject({
+      title: 'Physical therapy',
+      dueDate: '2025-01-20',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { openTestDatabase, TestDatabase } from './helpers/sqlJsDatabase';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { DatabaseService } from '../src/services/database';
+import taskService, { TaskService } from '../src/services/taskService';
+import { Priority } from '../src/types';
+import { addDays, getDateString } from '../src/utils/date';
+
+let testDb: TestDatabase;
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const today = getDateString(new Date());
+
+const createTask = (title: string, dueDate: string, dueTime?: string, priority: Priority = 'medium') =>
+  taskService.createTask({ title, type: 'task', dueDate, dueTime, isRecurring: false, priority });
+
+// End-to-end flows through TaskService on a real SQLite database
+describe('task flows', () => {
+  beforeEach(async () => {
+    testDb = await openTestDatabase();
+    await taskService.init(testDb);
+  });
+
+  afterEach(async () => {
+    await testDb.close();
+  });
+
+  it('creates a task, completes it and counts it on the dashboard', async () => {
+    const task = await createTask('Call the dentist', today);
+    await createTask('Pay the water bill', today);
+
+    expect((await taskService.getTodayTasks()).map(todayTask => todayTask.title)).toEqual([
+      'Call the dentist',
+      'Pay the water bill',
+    ]);
+
+    await taskService.completeTask(task.id, { notes: 'Booked for Tuesday' });
+
+    expect(await taskService.getDashboardMetrics()).toMatchObject({
+      todayTasks: 2,
+      completedToday: 1,
+      completionRate: 50,
+    });
+    const [completion] = await taskService.getTaskCompletions(task.id);
+    expect(completion.notes).toBe('Booked for Tuesday');
+    await expect(taskService.completeTask(task.id)).rejects.toThrow('already completed');
+  });
+
+  it('keeps the tasks of a service on its own database apart', async () => {
+    const otherDb = await openTestDatabase();
+    const other = new TaskService(new DatabaseService());
+    await other.init(otherDb);
+
+    await createTask('Call the dentist', today);
+    await other.createTask({ title: 'Walk the dog', type: 'task', dueDate: today, isRecurring: false, priority: 'low' });
+
+    expect((await taskService.getTodayTasks()).map(task => task.title)).toEqual(['Call the dentist']);
+    expect((await other.getTodayTasks()).map(task => task.title)).toEqual(['Walk the dog']);
+    await otherDb.close();
+  });
+
+  it('keeps past-due tasks overdue until they are completed', async () => {
+    const lastWeek = await createTask('Return library books', addDays(today, -7));
+    const yesterday = await createTask('Submit timesheet', addDays(today, -1), '17:00');
+    await createTask('Water the garden', addDays(today, 1));
+
+    expect((await taskService.getOverdueTasks()).map(task => task.id)).toEqual([lastWeek.id, yesterday.id]);
+    expect((await taskService.getDashboardMetrics()).overdueTasks).toBe(2);
+
+    await taskService.completeTask(lastWeek.id);
+
+    expect((await taskService.getOverdueTasks()).map(task => task.id)).toEqual([yesterday.id]);
+    expect((await taskService.getDashboardMetrics()).overdueTasks).toBe(1);
+  });
+
+  it('counts the streak of days with every task completed', async () => {
+    // Nothing due today, so the streak runs back from yesterday
+    for (let day = 1; day <= 3; day++) {
+      const task = await createTask('Practice piano', addDays(today, -day));
+      await taskService.completeTask(task.id);
+    }
+    await createTask('Practice piano', addDays(today, -4));
+
+    expect((await taskService.getDashboardMetrics()).currentStreak).toBe(3);
+
+    // An unfinished task on a day ends the streak there
+    await createTask('Tidy the garage', addDays(today, -2));
+    expect((await taskService.getDashboardMetrics()).currentStreak).toBe(1);
+  });
+
+  it('reports on-time and late completions', async () => {
+    const late = await createTask('Renew car registration', addDays(today, -3), '09:00', 'high');
+    const onTime = await createTask('Order birthday cake', addDays(today, 2), '12:00');
+    await taskService.completeTask(late.id);
+    await taskService.completeTask(onTime.id);
+
+    expect(await taskService.getCompletionStats(30)).toMatchObject({
+      totalCompletions: 2,
+      onTimeCompletions: 1,
+      lateCompletions: 1,
+      onTimePercentage: 50,
+    });
+
+    const lateTasks = await taskService.getTasksCompletedLate(30);
+    expect(lateTasks.map(item => item.task.id)).toEqual([late.id]);
+    expect(lateTasks[0].analytics.hoursLate).toBeGreaterThanOrEqual(48);
+    expect(lateTasks[0].description).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,1314 @@
+import { openTestDatabase, TestDatabase } from './helpers/sqlJsDatabase';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import database from '../src/services/database';
+import horizonManager from '../src/services/horizonManager';
+import taskService from '../src/services/taskService';
+import { updateSettings } from '../src/services/settingsService';
+import { addDays, getDateString } from '../src/utils/date';
+
+let testDb: TestDatabase;
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const today = getDateString(new Date());
+
+describe('TaskService', () => {
+  beforeEach(async () => {
+    testDb = await openTestDatabase();
+    await database.init(testDb);
+    await updateSettings({ recurringTaskGenerationDays: 30 });
+  });
+
+  afterEach(() => {
+    testDb.close();
+  });
+
+  describe('edit and delete scope', () => {
+    const weeklyReview = {
+      title: 'Weekly review',
+      type: 'task' as const,
+      dueDate: today,
+      dueTime: '09:00',
+      isRecurring: true,
+      recurrencePattern: 'weekly' as const,
+      priority: 'medium' as const,
+    };
+
+    // A weekly series due today, with its instances in date order
+    const createSeries = async () => {
+      const task = await taskService.createTask(weeklyReview);
+      return { seriesId: task.seriesId!, instances: await database.getSeriesInstances(task.seriesId!) };
+    };
+
+    const getInstances = (seriesId: string) => database.getSeriesInstances(seriesId);
+
+    it('edits only the chosen occurrence', async () => {
+      const { seriesId, instances } = await createSeries();
+      const third = instances[2];
+
+      const result = await taskService.updateTaskWithScope(
+        third.id,
+        { ...weeklyReview, title: 'Quarterly review', dueDate: third.dueDate },
+        'occurrence'
+      );
+
+      expect(result.updatedTasks.map(task => task.id)).toEqual([third.id]);
+      expect((await getInstances(seriesId)).map(task => task.title)).toEqual(
+        instances.map(task => (task.id === third.id ? 'Quarterly review' : 'Weekly review'))
+      );
+      expect((await taskService.getSeries(seriesId))!.overrides).toEqual([
+        { occurrenceDate: third.occurrenceDate, title: 'Quarterly review' },
+      ]);
+    });
+
+    it('splits the series at the edited occurrence for this and following', async () => {
+      const { seriesId, instances } = await createSeries();
+      const third = instances[2];
+      // Moved a day later, so the new series runs from the new date
+      const newDate = addDays(third.dueDate, 1);
+
+      await taskService.updateTaskWithScope(
+        third.id,
+        { ...weeklyReview, title: 'Team review', dueDate: newDate },
+        'following'
+      );
+
+      const original = (await taskService.getSeries(seriesId))!;
+      expect(original.untilDate).toBe(addDays(third.dueDate, -1));
+      expect((await getInstances(seriesId)).map(task => task.id)).toEqual([instances[0].id, instances[1].id]);
+      expect((await getInstances(seriesId)).every(task => task.title === 'Weekly review')).toBe(true);
+
+      const edited = (await taskService.getTaskById(third.id))!;
+      const newSeries = (await taskService.getSeries(edited.seriesId!))!;
+      expect(newSeries.id).not.toBe(seriesId);
+      expect(newSeries).toMatchObject({ title: 'Team review', startDate: newDate });
+      const following = await getInstances(newSeries.id);
+      expect(following[0]).toMatchObject({ id: third.id, dueDate: newDate, title: 'Team review' });
+      expect(following.map(task => task.dueDate)).toEqual(
+        following.map((_, index) => addDays(newDate, index * 7))
+      );
+      expect(following.every(task => task.title === 'Team review')).toBe(true);
+    });
+
+    it('splits the series at the date a moved occurrence stands for', async () => {
+      const { seriesId, instances } = await createSeries();
+      const third = instances[2];
+      const moved = await taskService.rescheduleTask(third.id, addDays(third.dueDate, 2));
+
+      await taskService.updateTaskWithScope(
+        third.id,
+        { ...weeklyReview, title: 'Team review', dueDate: moved.dueDate },
+        'following'
+      );
+
+      expect((await taskService.getSeries(seriesId))!.untilDate).toBe(addDays(third.occurrenceDate!, -1));
+      expect((await getInstances(seriesId)).map(task => task.id)).toEqual([instances[0].id, instances[1].id]);
+
+      const edited = (await taskService.getTaskById(third.id))!;
+      expect(edited).toMatchObject({ title: 'Team review', dueDate: moved.dueDate });
+      const newSeries = (await taskService.getSeries(edited.seriesId!))!;
+      expect(newSeries.startDate).toBe(third.occurrenceDate);
+      const following = await getInstances(newSeries.id);
+      expect(following.map(task => task.id)).toEqual(instances.slice(2).map(task => task.id));
+      expect(following.every(task => task.title === 'Team review')).toBe(true);
+    });
+
+    it('edits every open occurrence of the whole series', async () => {
+      const { seriesId, instances } = await createSeries();
+      await taskService.completeTask(instances[0].id);
+
+      await taskService.updateTaskWithScope(
+        instances[2].id,
+        { ...weeklyReview, title: 'Sunday review', dueDate: instances[2].dueDate, dueTime: '18:00' },
+        'series'
+      );
+
+      const updated = await getInstances(seriesId);
+      expect(updated.map(task => task.id)).toEqual(instances.map(task => task.id));
+      // The completed occurrence keeps what it was done as
+      expect(updated[0]).toMatchObject({ title: 'Weekly review', dueTime: '09:00' });
+      expect(updated.slice(1).every(task => task.title === 'Sunday review' && task.dueTime === '18:00')).toBe(true);
+      expect((await taskService.getSeries(seriesId))!.untilDate).toBeUndefined();
+    });
+
+    it('deletes only the chosen occurrence and keeps it from coming back', async () => {
+      const { seriesId, instances } = await createSeries();
+
+      const result = await taskService.deleteTaskWithScope(instances[1].id, 'occurrence');
+      await taskService.regenerateRecurringInstances(seriesId);
+
+      expect(result.removedTaskIds).toEqual([instances[1].id]);
+      expect((await getInstances(seriesId)).map(task => task.occurrenceDate)).toEqual(
+        instances.filter((_, index) => index !== 1).map(task => task.occurrenceDate)
+      );
+    });
+
+    it('ends the series before the chosen occurrence for this and following', async () => {
+      const { seriesId, instances } = await createSeries();
+      // Completed history is kept even after the cut
+      await taskService.completeTask(instances[3].id);
+
+      const result = await taskService.deleteTaskWithScope(instances[2].id, 'following');
+
+      const openIds = instances.slice(2).filter((_, index) => index !== 1).map(task => task.id);
+      expect([...result.removedTaskIds].sort()).toEqual([...openIds].sort());
+      expect((await getInstances(seriesId)).map(task => task.id)).toEqual([
+        instances[0].id,
+        instances[1].id,
+        instances[3].id,
+      ]);
+      expect((await taskService.getSeries(seriesId))!.untilDate).toBe(addDays(instances[2].dueDate, -1));
+    });
+
+    it('deletes the whole series, or this and following from its first occurrence', async () => {
+      const first = await createSeries();
+      const second = await createSeries();
+
+      await taskService.deleteTaskWithScope(first.instances[2].id, 'series');
+      await taskService.deleteTaskWithScope(second.instances[0].id, 'following');
+
+      for (const { seriesId } of [first, second]) {
+        expect(await getInstances(seriesId)).toEqual([]);
+        expect(await taskService.getSeries(seriesId)).toBeNull();
+      }
+    });
+
+    it('rolls back a split that fails part way', async () => {
+      const { seriesId, instances } = await createSeries();
+      const spy = jest.spyOn(database, 'moveSeriesInstances').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(
+        taskService.updateTaskWithScope(
+          instances[2].id,
+          { ...weeklyReview, title: 'Team review', dueDate: instances[2].dueDate },
+          'following'
+        )
+      ).rejects.toThrow('disk full');
+      spy.mockRestore();
+
+      expect((await taskService.getSeries(seriesId))!.untilDate).toBeUndefined();
+      expect(await getInstances(seriesId)).toEqual(instances);
+      const [series] = await testDb.executeSql('SELECT COUNT(*) AS count FROM task_series');
+      expect(series.rows.item(0).count).toBe(1);
+    });
+
+    it('rolls back a delete that fails part way', async () => {
+      const { seriesId, instances } = await createSeries();
+      const spy = jest.spyOn(database, 'deleteOpenSeriesInstances').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(taskService.deleteTaskWithScope(instances[2].id, 'following')).rejects.toThrow('disk full');
+      spy.mockRestore();
+
+      expect((await taskService.getSeries(seriesId))!.untilDate).toBeUndefined();
+      expect(await getInstances(seriesId)).toEqual(instances);
+    });
+  });
+
+  describe('series', () => {
+    const gymSession = {
+      title: 'Gym session',
+      description: 'Legs and core',
+      type: 'task' as const,
+      dueDate: today,
+      dueTime: '07:30',
+      isRecurring: true,
+      recurrencePattern: 'weekly' as const,
+      priority: 'high' as const,
+    };
+
+    it('stores the rule and template once and links every instance to it', async () => {
+      const task = await taskService.createTask(gymSession);
+
+      const [rows] = await testDb.executeSql('SELECT id FROM task_series');
+      expect(rows.rows.length).toBe(1);
+      expect(await taskService.getSeries(task.seriesId!)).toMatchObject({
+        id: rows.rows.item(0).id,
+        title: 'Gym session',
+        description: 'Legs and core',
+        dueTime: '07:30',
+        priority: 'high',
+        recurrencePattern: 'weekly',
+        recurrenceMode: 'schedule',
+        startDate: today,
+      });
+
+      const instances = await taskService.getSeriesInstances(task.seriesId!);
+      expect(instances.map(instance => instance.dueDate)).toEqual([0, 7, 14, 21, 28].map(days => addDays(today, days)));
+      expect(instances.every(instance => instance.seriesId === task.seriesId && instance.title === 'Gym session')).toBe(
+        true
+      );
+    });
+
+    it('deletes a series by id, leaving tasks with the same title alone', async () => {
+      const series = await taskService.createTask(gymSession);
+      const twin = await taskService.createTask(gymSession);
+      const oneOff = await taskService.createTask({ ...gymSession, isRecurring: false, recurrencePattern: undefined });
+
+      await taskService.deleteSeries(series.seriesId!);
+
+      expect(await taskService.getSeries(series.seriesId!)).toBeNull();
+      expect(await taskService.getSeriesInstances(series.seriesId!)).toEqual([]);
+      expect(await taskService.getSeriesInstances(twin.seriesId!)).toHaveLength(5);
+      expect(await taskService.getTaskById(oneOff.id)).not.toBeNull();
+    });
+
+    it('regenerates the instances of one series by id', async () => {
+      const series = await taskService.createTask(gymSession);
+      const twin = await taskService.createTask(gymSession);
+      const [, second] = await taskService.getSeriesInstances(series.seriesId!);
+      const [, twinSecond] = await taskService.getSeriesInstances(twin.seriesId!);
+      await database.deleteTask(second.id);
+      await database.deleteTask(twinSecond.id);
+
+      await taskService.regenerateRecurringInstances(series.seriesId!);
+
+      expect((await taskService.getSeriesInstances(series.seriesId!)).map(task => task.dueDate)).toContain(
+        second.dueDate
+      );
+      expect((await taskService.getSeriesInstances(twin.seriesId!)).map(task => task.dueDate)).not.toContain(
+        twinSecond.dueDate
+      );
+    });
+
+    it('updates the open instances of a series but not the completed ones', async () => {
+      const task = await taskService.createTask(gymSession);
+      await taskService.completeTask(task.id);
+
+      await taskService.updateSeries(task.seriesId!, { title: 'Swim session', dueTime: '06:45' });
+
+      const [completed, ...open] = await taskService.getSeriesInstances(task.seriesId!);
+      expect(completed).toMatchObject({ id: task.id, title: 'Gym session', dueTime: '07:30' });
+      expect(open).toHaveLength(4);
+      expect(open.every(instance => instance.title === 'Swim session' && instance.dueTime === '06:45')).toBe(true);
+      expect((await taskService.getSeries(task.seriesId!))!.title).toBe('Swim session');
+    });
+  });
+
+  describe('completion-based recurrence', () => {
+    const createFilterChange = (dueDate: string) =>
+      taskService.createTask({
+        title: 'Change furnace filter',
+        type: 'chore',
+        dueDate,
+        isRecurring: true,
+        recurrencePattern: 'custom',
+        recurrenceInterval: 3,
+        recurrenceMode: 'completion',
+        priority: 'medium',
+      });
+
+    it('only creates the next instance, even after the horizon runs', async () => {
+      const task = await createFilterChange(today);
+      await horizonManager.extendAllSeries();
+
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.dueDate)).toEqual([today]);
+    });
+
+    it('moves on to the next occurrence when the pending one is deleted', async () => {
+      const task = await createFilterChange(today);
+
+      await taskService.deleteTaskWithScope(task.id, 'occurrence');
+      await horizonManager.extendAllSeries();
+
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.dueDate)).toEqual([addDays(today, 3)]);
+      expect((await taskService.getSeries(task.seriesId!))!.startDate).toBe(addDays(today, 3));
+    });
+
+    it('schedules the next instance from the completion date', async () => {
+      // Overdue by a week, so the next one is counted from today, not the due date
+      const task = await createFilterChange(addDays(today, -7));
+
+      const nextTask = await taskService.completeTask(task.id);
+
+      expect(nextTask).toMatchObject({ dueDate: addDays(today, 3), seriesId: task.seriesId });
+      expect((await taskService.getSeries(task.seriesId!))!.startDate).toBe(addDays(today, 3));
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.dueDate)).toEqual([
+        addDays(today, -7),
+        addDays(today, 3),
+      ]);
+    });
+
+    it('returns no next instance for scheduled series', async () => {
+      const task = await taskService.createTask({
+        title: 'Water plants',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+      });
+
+      expect(await taskService.completeTask(task.id)).toBeNull();
+    });
+
+    it('keeps completed history when the pending instance and those after it are deleted', async () => {
+      const task = await createFilterChange(today);
+      const nextTask = await taskService.completeTask(task.id);
+
+      const result = await taskService.deleteTaskWithScope(nextTask!.id, 'following');
+
+      expect(result.removedTaskIds).toEqual([nextTask!.id]);
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.id)).toEqual([task.id]);
+      expect(await database.getCompletions(task.id)).toHaveLength(1);
+    });
+  });
+
+  describe('completion state', () => {
+    const createChore = (dueDate: string) =>
+      taskService.createTask({
+        title: 'Mow the lawn',
+        type: 'chore',
+        dueDate,
+        isRecurring: false,
+        priority: 'medium',
+      });
+
+    it('keeps a task completed after the day it was completed', async () => {
+      const lastFriday = await createChore(addDays(today, -3));
+      const open = await createChore(addDays(today, -3));
+      await taskService.completeTask(lastFriday.id);
+
+      const state = await taskService.getCompletionState([lastFriday.id, open.id]);
+      expect([...state.keys()]).toEqual([lastFriday.id]);
+      expect(state.get(lastFriday.id)!.taskId).toBe(lastFriday.id);
+      await expect(taskService.completeTask(lastFriday.id)).rejects.toThrow('already completed');
+      expect((await taskService.getOverdueTasks()).map(task => task.id)).toEqual([open.id]);
+    });
+
+    it('records only one completion when a task is completed twice at once', async () => {
+      const chore = await createChore(today);
+
+      const results = await Promise.allSettled([
+        taskService.completeTask(chore.id),
+        taskService.completeTask(chore.id),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await taskService.getTaskCompletions(chore.id)).toHaveLength(1);
+    });
+
+    it('counts today as done once every task due today is completed', async () => {
+      const first = await createChore(today);
+      const second = await createChore(today);
+      await taskService.completeTask(first.id);
+
+      expect(await taskService.getDashboardMetrics()).toMatchObject({ completedToday: 1, currentStreak: 0 });
+
+      await taskService.completeTask(second.id);
+      expect(await taskService.getDashboardMetrics()).toMatchObject({ completedToday: 2, currentStreak: 1 });
+    });
+
+    it('uncompletes a task', async () => {
+      const task = await createChore(addDays(today, -1));
+      await taskService.completeTask(task.id);
+
+      expect(await taskService.uncompleteTask(task.id)).toBeNull();
+      expect((await taskService.getCompletionState([task.id])).size).toBe(0);
+      expect((await taskService.getOverdueTasks()).map(t => t.id)).toEqual([task.id]);
+    });
+
+    it('edits a completion and recomputes its lateness', async () => {
+      const task = await createChore(addDays(today, -3));
+      await taskService.completeTask(task.id);
+      const [completion] = await taskService.getTaskCompletions(task.id);
+
+      // Actually done on the day, just recorded late
+      const onTheDay = new Date(`${addDays(today, -3)}T18:00:00`).toISOString();
+      const edited = await taskService.updateCompletion(completion.id, {
+        completedAt: onTheDay,
+        notes: 'Forgot to tick it off',
+      });
+
+      expect(edited).toMatchObject({ completedAt: onTheDay, notes: 'Forgot to tick it off' });
+      const history = await taskService.getTaskCompletionHistory(task.id);
+      expect(history!.completions).toEqual([edited]);
+      expect(history!.analytics[0].wasCompletedLate).toBe(false);
+
+      const cleared = await taskService.updateCompletion(completion.id, { notes: '' });
+      expect(cleared.notes).toBeFalsy();
+    });
+
+    it('rejects completion times in the future', async () => {
+      const task = await createChore(today);
+      await taskService.completeTask(task.id);
+      const [completion] = await taskService.getTaskCompletions(task.id);
+
+      const tomorrow = new Date(`${addDays(today, 1)}T12:00:00`).toISOString();
+      await expect(taskService.updateCompletion(completion.id, { completedAt: tomorrow })).rejects.toThrow(
+        'cannot be in the future'
+      );
+      await expect(taskService.updateCompletion('missing', { notes: 'x' })).rejects.toThrow('not found');
+    });
+
+    it('takes back the instance a completion-based series scheduled', async () => {
+      const task = await taskService.createTask({
+        title: 'Change furnace filter',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'custom',
+        recurrenceInterval: 3,
+        recurrenceMode: 'completion',
+        priority: 'medium',
+      });
+      const nextTask = await taskService.completeTask(task.id);
+
+      expect(await taskService.uncompleteTask(task.id)).toBe(nextTask!.id);
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.id)).toEqual([task.id]);
+      expect((await taskService.getSeries(task.seriesId!))!.startDate).toBe(today);
+
+      // Completing again schedules afresh
+      expect(await taskService.completeTask(task.id)).toMatchObject({ dueDate: addDays(today, 3) });
+    });
+  });
+
+  describe('completion details', () => {
+    const createGroceryRun = () =>
+      taskService.createTask({
+        title: 'Grocery run',
+        type: 'task',
+        dueDate: addDays(today, -2),
+        isRecurring: true,
+        recurrencePattern: 'daily',
+        priority: 'medium',
+      });
+
+    it('stores notes, a value and a photo with the completion', async () => {
+      const task = await createGroceryRun();
+      await taskService.completeTask(task.id, {
+        notes: 'Costco',
+        value: 84.5,
+        photoPath: 'file:///receipts/costco.jpg',
+      });
+
+      const [completion] = await taskService.getTaskCompletions(task.id);
+      expect(completion).toMatchObject({
+        notes: 'Costco',
+        value: 84.5,
+        photoPath: 'file:///receipts/costco.jpg',
+      });
+
+      const edited = await taskService.updateCompletion(completion.id, { value: 80 });
+      expect(edited).toMatchObject({ notes: 'Costco', value: 80 });
+    });
+
+    it('rejects values that are not numbers', async () => {
+      const task = await createGroceryRun();
+
+      await expect(taskService.completeTask(task.id, { value: NaN })).rejects.toThrow('Invalid completion value');
+      expect(await taskService.getTaskCompletions(task.id)).toEqual([]);
+    });
+
+    it('summarizes values across the instances of a series', async () => {
+      const task = await createGroceryRun();
+      const [first, second, third] = await database.getSeriesInstances(task.seriesId!);
+      await taskService.completeTask(first.id, { value: 40 });
+      await taskService.completeTask(second.id, { notes: 'Forgot the receipt' });
+      await taskService.completeTask(third.id, { value: 62.25 });
+
+      const summary = await taskService.getSeriesCompletionSummary(task.seriesId!);
+      expect(summary).toEqual({ completions: 3, valueCount: 2, total: 102.25, average: 51.125, lastValue: 62.25 });
+    });
+  });
+
+  describe('checklists', () => {
+    const weeklyReset = {
+      title: 'Weekly reset',
+      type: 'chore' as const,
+      dueDate: today,
+      isRecurring: true,
+      recurrencePattern: 'weekly' as const,
+      priority: 'medium' as const,
+    };
+    const checklist = ['Dishes', 'Laundry', 'Trash'];
+
+    // Resolves with the result of checking the last item
+    const checkAll = async (taskId: string) => {
+      const results = [];
+      for (const item of await taskService.getSubtasks(taskId)) {
+        results.push(await taskService.setSubtaskChecked(item.id, true));
+      }
+      return results[results.length - 1];
+    };
+
+    it('copies the checklist into each instance of a series', async () => {
+      const task = await taskService.createTask(weeklyReset, checklist);
+      const [first, second] = await database.getSeriesInstances(task.seriesId!);
+
+      const [dishes] = await taskService.getSubtasks(first.id);
+      await taskService.setSubtaskChecked(dishes.id, true);
+
+      expect((await taskService.getSubtasks(second.id)).map(item => item.title)).toEqual(checklist);
+      const progress = await taskService.getChecklistProgress([first.id, second.id]);
+      expect(progress.get(first.id)).toEqual({ done: 1, total: 3 });
+      expect(progress.get(second.id)).toEqual({ done: 0, total: 3 });
+
+      // Instances generated later get the template too
+      const nextTask = await taskService.completeTask(
+        (await taskService.createTask({ ...weeklyReset, recurrenceMode: 'completion' }, checklist)).id
+      );
+      expect((await taskService.getSubtasks(nextTask!.id)).map(item => item.title)).toEqual(checklist);
+    });
+
+    it('completes the task once every item is checked, if set to', async () => {
+      const manual = await taskService.createTask({ ...weeklyReset, isRecurring: false }, checklist);
+      expect(await checkAll(manual.id)).toMatchObject({ autoCompleted: false });
+      expect((await taskService.getCompletionState([manual.id])).size).toBe(0);
+
+      const automatic = await taskService.createTask(
+        { ...weeklyReset, isRecurring: false, autoCompleteChecklist: true },
+        checklist
+      );
+      const [dishes] = await taskService.getSubtasks(automatic.id);
+      await taskService.setSubtaskChecked(dishes.id, false);
+      expect((await taskService.getCompletionState([automatic.id])).size).toBe(0);
+
+      expect(await checkAll(automatic.id)).toMatchObject({ autoCompleted: true });
+      expect((await taskService.getCompletionState([automatic.id])).size).toBe(1);
+    });
+
+    it('keeps checked items when the checklist is edited', async () => {
+      const task = await taskService.createTask({ ...weeklyReset, isRecurring: false }, checklist);
+      const [, laundry] = await taskService.getSubtasks(task.id);
+      await taskService.setSubtaskChecked(laundry.id, true);
+
+      const edited = await taskService.setChecklist(task.id, ['Laundry', 'Vacuum', '  ']);
+
+      expect(edited.map(({ title, position }) => ({ title, position }))).toEqual([
+        { title: 'Laundry', position: 0 },
+        { title: 'Vacuum', position: 1 },
+      ]);
+      expect(await taskService.getSubtasks(task.id)).toEqual([
+        { ...laundry, position: 0, completedAt: expect.any(String) },
+        expect.objectContaining({ title: 'Vacuum', completedAt: undefined }),
+      ]);
+    });
+
+    it('updates the template and open instances when the whole series is edited', async () => {
+      const task = await taskService.createTask(weeklyReset, checklist);
+      const [first, second] = await database.getSeriesInstances(task.seriesId!);
+      await taskService.completeTask(first.id);
+
+      await taskService.updateTaskWithScope(second.id, { ...weeklyReset, dueDate: second.dueDate }, 'series', [
+        'Dishes',
+        'Bathroom',
+      ]);
+
+      expect((await taskService.getSeries(task.seriesId!))!.checklist).toEqual(['Dishes', 'Bathroom']);
+      expect((await taskService.getSubtasks(first.id)).map(item => item.title)).toEqual(checklist);
+      expect((await taskService.getSubtasks(second.id)).map(item => item.title)).toEqual(['Dishes', 'Bathroom']);
+    });
+  });
+
+  describe('dependencies', () => {
+    const createErrand = (title: string, dueDate = addDays(today, -1)) =>
+      taskService.createTask({ title, type: 'task', dueDate, isRecurring: false, priority: 'medium' });
+
+    it('rejects relations that would go round in a circle', async () => {
+      const buyPaint = await createErrand('Buy paint');
+      const paint = await createErrand('Paint the fence');
+      const inspect = await createErrand('Inspect the fence');
+      await taskService.addBlocker(paint.id, buyPaint.id);
+      await taskService.addBlocker(inspect.id, paint.id);
+
+      await expect(taskService.addBlocker(buyPaint.id, buyPaint.id)).rejects.toThrow('cannot block itself');
+      await expect(taskService.addBlocker(buyPaint.id, paint.id)).rejects.toThrow('already waits on');
+      await expect(taskService.addBlocker(buyPaint.id, inspect.id)).rejects.toThrow('already waits on');
+      expect(await taskService.getBlockers(buyPaint.id)).toEqual([]);
+      expect((await taskService.getDependents(paint.id)).map(task => task.id)).toEqual([inspect.id]);
+    });
+
+    it('leaves tasks with open blockers out of overdue when asked', async () => {
+      const bookVet = await createErrand('Book the vet');
+      const vetVisit = await createErrand('Vet appointment');
+      await taskService.addBlocker(vetVisit.id, bookVet.id);
+
+      const overdueIds = async (excludeBlocked: boolean) =>
+        (await taskService.getOverdueTasks({ excludeBlocked })).map(task => task.id);
+      expect(await overdueIds(false)).toEqual([bookVet.id, vetVisit.id]);
+      expect(await overdueIds(true)).toEqual([bookVet.id]);
+      expect((await taskService.getOpenBlockers([vetVisit.id])).get(vetVisit.id)!.map(task => task.id)).toEqual([
+        bookVet.id,
+      ]);
+
+      await taskService.completeTask(bookVet.id);
+      expect(await overdueIds(true)).toEqual([vetVisit.id]);
+      expect((await taskService.getOpenBlockers([vetVisit.id])).size).toBe(0);
+    });
+
+    it('drops the relations of a deleted task', async () => {
+      const buyPaint = await createErrand('Buy paint');
+      const paint = await createErrand('Paint the fence');
+      await taskService.addBlocker(paint.id, buyPaint.id);
+
+      await taskService.deleteTask(buyPaint.id);
+
+      expect(await taskService.getBlockers(paint.id)).toEqual([]);
+      expect((await taskService.getOverdueTasks({ excludeBlocked: true })).map(task => task.id)).toEqual([paint.id]);
+    });
+  });
+
+  describe('categories', () => {
+    it('keeps categories in the order they are arranged in', async () => {
+      const home = await taskService.createCategory('Home', '#4CAF50', 'home');
+      const work = await taskService.createCategory('Work', '#2196F3');
+      const pets = await taskService.createCategory('Pets', '#FF9800', 'pets');
+
+      await taskService.reorderCategories([pets.id, home.id, work.id]);
+      await taskService.updateCategory(work.id, { name: ' Office ', color: '#9C27B0' });
+
+      expect(await taskService.getCategories()).toEqual([
+        { ...pets, position: 0 },
+        { ...home, position: 1 },
+        { ...work, name: 'Office', color: '#9C27B0', position: 2 },
+      ]);
+    });
+
+    it('rejects blank, duplicate and badly colored categories', async () => {
+      const home = await taskService.createCategory('Home', '#4CAF50');
+
+      await expect(taskService.createCategory('  ', '#4CAF50')).rejects.toThrow('name is required');
+      await expect(taskService.createCategory('home', '#4CAF50')).rejects.toThrow('already exists');
+      await expect(taskService.updateCategory(home.id, { color: 'green' })).rejects.toThrow('Invalid category color');
+      await taskService.updateCategory(home.id, { name: 'HOME' });
+    });
+
+    it('moves the tasks and series of a deleted category, or uncategorizes them', async () => {
+      const home = await taskService.createCategory('Home', '#4CAF50');
+      const chores = await taskService.createCategory('Chores', '#FF9800');
+      const task = await taskService.createTask({
+        title: 'Vacuum',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+        categoryId: home.id,
+      });
+      expect(await taskService.countCategoryTasks(home.id)).toBeGreaterThan(1);
+
+      await expect(taskService.deleteCategory(home.id, home.id)).rejects.toThrow('being deleted');
+      await taskService.deleteCategory(home.id, chores.id);
+
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      expect(new Set(instances.map(instance => instance.categoryId))).toEqual(new Set([chores.id]));
+      expect((await taskService.getSeries(task.seriesId!))!.categoryId).toBe(chores.id);
+
+      await taskService.deleteCategory(chores.id);
+      expect((await taskService.getTaskById(task.id))!.categoryId).toBeNull();
+      expect(await taskService.getCategories()).toEqual([]);
+    });
+  });
+
+  describe('tags', () => {
+    const tagNames = async (taskId: string) =>
+      ((await taskService.getTaskTags([taskId])).get(taskId) ?? []).map(tag => tag.name);
+
+    it('reuses tags that differ only in case and drops blanks and duplicates', async () => {
+      const first = await taskService.createTask(
+        { title: 'Buy stamps', type: 'task', dueDate: today, isRecurring: false, priority: 'low' },
+        [],
+        ['@errands', ' #kids ', '']
+      );
+      const second = await taskService.createTask(
+        { title: 'Pick up shoes', type: 'task', dueDate: today, isRecurring: false, priority: 'low' },
+        [],
+        ['@Errands', 'waiting-on', 'WAITING-ON']
+      );
+
+      expect(await tagNames(first.id)).toEqual(['#kids', '@errands']);
+      expect(await tagNames(second.id)).toEqual(['@errands', 'waiting-on']);
+      expect((await taskService.getTags()).map(tag => tag.name)).toEqual(['#kids', '@errands', 'waiting-on']);
+
+      await taskService.setTaskTags(first.id, []);
+      expect((await taskService.getTaskTags([first.id, second.id])).has(first.id)).toBe(false);
+    });
+
+    it('gives generated instances the tags of their series', async () => {
+      const swimClass = {
+        title: 'Swim class',
+        type: 'appointment' as const,
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'weekly' as const,
+        priority: 'medium' as const,
+      };
+      const task = await taskService.createTask(swimClass, [], ['#kids']);
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      const tags = await taskService.getTaskTags(instances.map(instance => instance.id));
+      expect(instances.every(instance => tags.get(instance.id)?.[0].name === '#kids')).toBe(true);
+
+      await taskService.updateTaskWithScope(task.id, swimClass, 'series', undefined, ['#kids', '@pool']);
+
+      for (const instance of await database.getSeriesInstances(task.seriesId!)) {
+        expect(await tagNames(instance.id)).toEqual(['#kids', '@pool']);
+      }
+      expect((await taskService.getSeries(task.seriesId!))!.tags).toEqual(['#kids', '@pool']);
+    });
+  });
+
+  describe('range queries', () => {
+    const createChore = (dueDate: string) =>
+      taskService.createTask({ title: 'Feed the fish', type: 'chore', dueDate, isRecurring: false, priority: 'low' });
+
+    // Completed chores on each of the `days` days before today
+    const seedHistory = async (days: number) => {
+      for (let day = days; day >= 1; day--) {
+        const task = await createChore(addDays(today, -day));
+        await taskService.completeTask(task.id);
+      }
+    };
+
+    const countQueries = async (work: () => Promise<unknown>) => {
+      const spy = jest.spyOn(testDb, 'executeSql');
+      await work();
+      const count = spy.mock.calls.length;
+      spy.mockRestore();
+      return count;
+    };
+
+    it('groups tasks by due date and completions by task', async () => {
+      const first = await createChore(addDays(today, -1));
+      const second = await createChore(addDays(today, -1));
+      const third = await createChore(addDays(today, 2));
+      await createChore(addDays(today, 3));
+      await taskService.completeTask(second.id);
+
+      const tasksByDate = await taskService.getTasksInRange(addDays(today, -1), addDays(today, 2));
+      expect([...tasksByDate.keys()]).toEqual([addDays(today, -1), addDays(today, 2)]);
+      expect(tasksByDate.get(addDays(today, -1))!.map(task => task.id)).toEqual([first.id, second.id]);
+      expect(tasksByDate.get(addDays(today, 2))!.map(task => task.id)).toEqual([third.id]);
+
+      const completions = await taskService.getCompletionsForTasks([first.id, second.id, third.id]);
+      expect([...completions.keys()]).toEqual([second.id]);
+      expect(completions.get(second.id)).toHaveLength(1);
+    });
+
+    it('computes the streak in the same few queries however long the history', async () => {
+      await seedHistory(5);
+      const shortHistory = await countQueries(() => taskService.getDashboardMetrics());
+
+      await seedHistory(25);
+      expect((await taskService.getDashboardMetrics()).currentStreak).toBe(25);
+      const longHistory = await countQueries(() => taskService.getDashboardMetrics());
+
+      // Checking day by day took two queries for each of the 365 days
+      expect(longHistory).toBe(shortHistory);
+      expect(longHistory).toBeLessThan(10);
+    });
+
+    it('loads upcoming tasks in one query', async () => {
+      await createChore(today);
+      await createChore(addDays(today, 6));
+      await createChore(addDays(today, 7));
+
+      let upcoming: unknown[] = [];
+      const queries = await countQueries(async () => {
+        upcoming = await taskService.getUpcomingTasks(7);
+      });
+      expect(upcoming).toHaveLength(2);
+      expect(queries).toBe(1);
+    });
+
+    it.each([
+      ['completions', (ids: string[]) => taskService.getCompletionsForTasks(ids)],
+      ['open blockers', (ids: string[]) => taskService.getOpenBlockers(ids)],
+      ['checklist progress', (ids: string[]) => taskService.getChecklistProgress(ids)],
+      ['tags', (ids: string[]) => taskService.getTaskTags(ids)],
+    ])('batches long lists of task ids when loading %s', async (_lookup, load) => {
+      const ids = Array.from({ length: 1200 }, (_, index) => `task-${index}`);
+      const queries = await countQueries(() => load(ids));
+      expect(queries).toBe(3);
+    });
+  });
+
+  describe('batch writes', () => {
+    const dailyStretch = {
+      title: 'Stretch',
+      type: 'chore' as const,
+      dueDate: today,
+      isRecurring: true,
+      recurrencePattern: 'daily' as const,
+      priority: 'low' as const,
+    };
+
+    it('creates a year of instances with their checklists and tags in a few statements', async () => {
+      await updateSettings({ recurringTaskGenerationDays: 365 });
+
+      const spy = jest.spyOn(testDb, 'executeSql');
+      const task = await taskService.createTask(dailyStretch, ['Hamstrings', 'Shoulders'], ['#health']);
+      const statements = spy.mock.calls.length;
+      spy.mockRestore();
+
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      expect(instances.length).toBeGreaterThanOrEqual(365);
+      expect(statements).toBeLessThan(50);
+
+      const progress = await taskService.getChecklistProgress(instances.map(instance => instance.id));
+      const tags = await taskService.getTaskTags(instances.map(instance => instance.id));
+      expect(instances.every(instance => progress.get(instance.id)?.total === 2)).toBe(true);
+      expect(instances.every(instance => tags.get(instance.id)?.[0].name === '#health')).toBe(true);
+    });
+
+    it('rolls back the series when its instances cannot be created', async () => {
+      const spy = jest.spyOn(database, 'updateSeries').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(taskService.createTask(dailyStretch, ['Hamstrings'])).rejects.toThrow('disk full');
+      spy.mockRestore();
+
+      const [series] = await testDb.executeSql('SELECT COUNT(*) AS count FROM task_series');
+      const [subtasks] = await testDb.executeSql('SELECT COUNT(*) AS count FROM subtasks');
+      expect(series.rows.item(0).count).toBe(0);
+      expect(subtasks.rows.item(0).count).toBe(0);
+      expect(await database.getTasks()).toEqual([]);
+    });
+
+    it('keeps a task and its history when deleting it fails part way', async () => {
+      const task = await taskService.createTask(
+        { title: 'Renew passport', type: 'task', dueDate: today, isRecurring: false, priority: 'high' },
+        ['Photos']
+      );
+      await taskService.completeTask(task.id);
+
+      const executeSql = testDb.executeSql;
+      const spy = jest.spyOn(testDb, 'executeSql').mockImplementation((statement, params) =>
+        statement.startsWith('DELETE FROM tasks')
+          ? Promise.reject(new Error('database is locked'))
+          : executeSql(statement, params)
+      );
+      await expect(taskService.deleteTask(task.id)).rejects.toThrow('database is locked');
+      spy.mockRestore();
+
+      const stored = await database.getTaskWithCompletions(task.id);
+      expect(stored!.completions).toHaveLength(1);
+      expect((await taskService.getChecklistProgress([task.id])).get(task.id)?.total).toBe(1);
+    });
+
+    it('keeps a write made while an unrelated transaction rolls back', async () => {
+      let paused!: () => void;
+      let resume!: () => void;
+      const isPaused = new Promise<void>(resolve => {
+        paused = resolve;
+      });
+      const failing = database.transaction(async tx => {
+        await tx.createTask({ title: 'Rolled back', type: 'task', dueDate: today, isRecurring: false, priority: 'low' });
+        paused();
+        await new Promise<void>(resolve => {
+          resume = resolve;
+        });
+        throw new Error('cancelled');
+      });
+
+      await isPaused;
+      const creating = taskService.createTask(
+        { title: 'Kept', type: 'task', dueDate: today, isRecurring: false, priority: 'low' },
+        ['Step one']
+      );
+      // Give the second write the chance to run inside the open transaction
+      await new Promise(resolve => setTimeout(resolve, 20));
+      resume();
+
+      await expect(failing).rejects.toThrow('cancelled');
+      const kept = await creating;
+      expect((await database.getTasks()).map(task => task.title)).toEqual(['Kept']);
+      expect((await taskService.getChecklistProgress([kept.id])).get(kept.id)?.total).toBe(1);
+    });
+
+    it('keeps a plain update made while an unrelated transaction rolls back', async () => {
+      const task = await taskService.createTask({
+        title: 'Draft',
+        type: 'task',
+        dueDate: today,
+        isRecurring: false,
+        priority: 'low',
+      });
+      let paused!: () => void;
+      let resume!: () => void;
+      const isPaused = new Promise<void>(resolve => {
+        paused = resolve;
+      });
+      const failing = database.transaction(async tx => {
+        await tx.updateTask(task.id, { priority: 'high' });
+        paused();
+        await new Promise<void>(resolve => {
+          resume = resolve;
+        });
+        throw new Error('cancelled');
+      });
+
+      await isPaused;
+      const updating = database.updateTask(task.id, { title: 'Final' });
+      // Give the update the chance to run inside the open transaction
+      await new Promise(resolve => setTimeout(resolve, 20));
+      resume();
+
+      await expect(failing).rejects.toThrow('cancelled');
+      await updating;
+      expect(await taskService.getTaskById(task.id)).toMatchObject({ title: 'Final', priority: 'low' });
+    });
+
+    it('inserts nothing when any batch of rows fails', async () => {
+      const rows = Array.from({ length: 400 }, (_, index) => ({
+        id: `tag-${index}`,
+        name: `tag ${index}`,
+        created_at: new Date().toISOString(),
+      }));
+      // Names are unique regardless of case, so the last batch fails
+      rows.push({ ...rows[0], id: 'tag-duplicate', name: 'TAG 0' });
+
+      await expect(database.insertMany('tags', rows)).rejects.toThrow();
+      expect(await taskService.getTags()).toEqual([]);
+    });
+  });
+
+  describe('search', () => {
+    it('finds tasks by word prefixes in titles, descriptions and completion notes', async () => {
+      const plumber = await taskService.createTask({
+        title: 'Plumber appointment',
+        description: 'Kitchen sink leaks',
+        type: 'appointment',
+        dueDate: addDays(today, -30),
+        isRecurring: false,
+        priority: 'high',
+      });
+      const gutters = await taskService.createTask({
+        title: 'Clean gutters',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: false,
+        priority: 'low',
+      });
+      await taskService.completeTask(gutters.id, { notes: 'Called the plumber about the downspout' });
+
+      const results = await taskService.searchTasks('PLUMB');
+      expect(results.map(result => result.task.id)).toEqual([gutters.id, plumber.id]);
+      expect(results[0].notes).toEqual(['Called the plumber about the downspout']);
+      expect(results[1].notes).toEqual([]);
+
+      expect((await taskService.searchTasks('sink plumb')).map(result => result.task.id)).toEqual([plumber.id]);
+      expect(await taskService.searchTasks(' "* ')).toEqual([]);
+    });
+
+    it('narrows results down by type, priority, category and date range', async () => {
+      const home = await taskService.createCategory('Home', '#4CAF50');
+      const create = (title: string, dueDate: string, extra: object = {}) =>
+        taskService.createTask({ title, type: 'task', dueDate, isRecurring: false, priority: 'medium', ...extra });
+      const march = await create('Pay water bill', '2025-03-14', { categoryId: home.id });
+      const april = await create('Pay water bill', '2025-04-14', { priority: 'high' });
+      const chore = await create('Water plants', '2025-03-20', { type: 'chore' });
+
+      const search = async (filters: object) =>
+        (await taskService.searchTasks('water', filters)).map(result => result.task.id);
+      expect(await search({ fromDate: '2025-03-01', toDate: '2025-03-31' })).toEqual([chore.id, march.id]);
+      expect(await search({ priority: 'high' })).toEqual([april.id]);
+      expect(await search({ type: 'chore' })).toEqual([chore.id]);
+      expect(await search({ categoryId: home.id })).toEqual([march.id]);
+    });
+
+    it('keeps the index in step with edits, deletions and edited notes', async () => {
+      const task = await taskService.createTask({
+        title: 'Call the dentist',
+        type: 'task',
+        dueDate: today,
+        isRecurring: false,
+        priority: 'medium',
+      });
+      await taskService.updateTask(task.id, { title: 'Call the orthodontist' });
+      expect(await taskService.searchTasks('dentist')).toEqual([]);
+      expect(await taskService.searchTasks('ortho')).toHaveLength(1);
+
+      await taskService.completeTask(task.id, { notes: 'Left a voicemail' });
+      const [completion] = await taskService.getTaskCompletions(task.id);
+      await taskService.updateCompletion(completion.id, { notes: 'Booked for Tuesday' });
+      expect(await taskService.searchTasks('voicemail')).toEqual([]);
+      expect((await taskService.searchTasks('tues'))[0].notes).toEqual(['Booked for Tuesday']);
+
+      await taskService.deleteTask(task.id);
+      expect(await taskService.searchTasks('ortho')).toEqual([]);
+    });
+  });
+
+  describe('skip, snooze and reschedule', () => {
+    const createChore = (dueDate: string, dueTime?: string) =>
+      taskService.createTask({
+        title: 'Take out the bins',
+        type: 'chore',
+        dueDate,
+        dueTime,
+        isRecurring: false,
+        priority: 'medium',
+      });
+
+    it('excludes skipped tasks from overdue and the completion rate', async () => {
+      const overdue = await createChore(addDays(today, -2));
+      const dueToday = await createChore(today);
+      await createChore(today);
+
+      await taskService.skipTask(overdue.id);
+      await taskService.skipTask(dueToday.id);
+
+      expect(await taskService.getOverdueTasks()).toEqual([]);
+      expect(await taskService.getDashboardMetrics()).toMatchObject({ todayTasks: 1, overdueTasks: 0 });
+
+      await taskService.unskipTask(overdue.id);
+      expect((await taskService.getOverdueTasks()).map(task => task.id)).toEqual([overdue.id]);
+    });
+
+    it('keeps the original due date across moves', async () => {
+      const task = await createChore(today, '09:00');
+
+      await taskService.snoozeTask(task.id, 'day');
+      const moved = await taskService.rescheduleTask(task.id, addDays(today, 5), '18:00');
+
+      expect(await taskService.getTaskById(task.id)).toMatchObject({
+        dueDate: addDays(today, 5),
+        dueTime: '18:00',
+        originalDueDate: today,
+        originalDueTime: '09:00',
+      });
+      expect(moved.originalDueDate).toBe(today);
+    });
+
+    it('measures lateness against the original due date', async () => {
+      const task = await createChore(addDays(today, -3));
+      await taskService.rescheduleTask(task.id, today);
+
+      await taskService.completeTask(task.id);
+
+      const history = await taskService.getTaskCompletionHistory(task.id);
+      expect(history!.analytics[0].wasCompletedLate).toBe(true);
+    });
+
+    it('keeps a moved occurrence in place when its series is reconciled', async () => {
+      const task = await taskService.createTask({
+        title: 'Water plants',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+      });
+      const snoozed = await taskService.snoozeTask(task.id, 'day');
+
+      await taskService.updateTaskWithScope(
+        task.id,
+        {
+          title: 'Water the plants',
+          type: snoozed.type,
+          dueDate: snoozed.dueDate,
+          isRecurring: true,
+          recurrencePattern: 'weekly',
+          priority: snoozed.priority,
+        },
+        'series'
+      );
+
+      expect(await taskService.getTaskById(task.id)).toMatchObject({
+        title: 'Water the plants',
+        dueDate: addDays(today, 1),
+        occurrenceDate: today,
+        originalDueDate: today,
+      });
+    });
+  });
+
+  describe('end conditions', () => {
+    const createTherapy = (ends: { recurrenceUntil?: string; recurrenceCount?: number }) =>
+      taskService.createTask({
+        title: 'Physical therapy',
+        type: 'appointment',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+        ...ends,
+      });
+
+    it('generates no more than the occurrence count', async () => {
+      await updateSettings({ recurringTaskGenerationDays: 365 });
+      const task = await createTherapy({ recurrenceCount: 10 });
+      await horizonManager.extendAllSeries();
+
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      expect(instances).toHaveLength(10);
+      expect(await taskService.getOccurrencePosition(instances[3])).toEqual({ index: 4, total: 10 });
+    });
+
+    it('generates nothing after the end date', async () => {
+      const task = await createTherapy({ recurrenceUntil: addDays(today, 14) });
+
+      expect((await database.getSeriesInstances(task.seriesId!)).map(t => t.dueDate)).toEqual([
+        today,
+        addDays(today, 7),
+        addDays(today, 14),
+      ]);
+    });
+
+    it('keeps the overall count when the following occurrences are split off', async () => {
+      const task = await createTherapy({ recurrenceCount: 4 });
+      const [, second] = await database.getSeriesInstances(task.seriesId!);
+
+      const result = await taskService.updateTaskWithScope(
+        second.id,
+        {
+          title: 'Physical therapy',
+          type: 'appointment',
+          dueDate: second.dueDate,
+          dueTime: '10:00',
+          isRecurring: true,
+          recurrencePattern: 'weekly',
+          recurrenceCount: 4,
+          priority: 'medium',
+        },
+        'following'
+      );
+
+      const newSeries = await taskService.getSeries(result.updatedTasks[0].seriesId!);
+      expect(newSeries!.occurrenceCount).toBe(3);
+      expect(await database.getSeriesInstances(newSeries!.id)).toHaveLength(3);
+    });
+
+    it('stops a completion-based series after the occurrence count', async () => {
+      const task = await taskService.createTask({
+        title: 'Change furnace filter',
+        type: 'chore',
+        dueDate: today,
+        isRecurring: true,
+        recurrencePattern: 'daily',
+        recurrenceMode: 'completion',
+        recurrenceCount: 2,
+        priority: 'medium',
+      });
+
+      const nextTask = await taskService.completeTask(task.id);
+      expect(await taskService.getOccurrencePosition(nextTask!)).toEqual({ index: 2, total: 2 });
+
+      expect(await taskService.completeTask(nextTask!.id)).toBeNull();
+      expect(await database.getSeriesInstances(task.seriesId!)).toHaveLength(2);
+    });
+  });
+
+  describe('time zones', () => {
+    it('fixes every instance of a series to the series zone', async () => {
+      const task = await taskService.createTask({
+        title: 'Call home',
+        type: 'appointment',
+        dueDate: today,
+        dueTime: '19:00',
+        timeZone: 'Europe/Paris',
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+      });
+
+      expect((await taskService.getSeries(task.seriesId!))!.timeZone).toBe('Europe/Paris');
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      expect(instances.length).toBeGreaterThan(1);
+      expect(instances.every(instance => instance.timeZone === 'Europe/Paris')).toBe(true);
+
+      await taskService.updateTaskWithScope(
+        task.id,
+        { ...task, isRecurring: true, timeZone: undefined },
+        'series'
+      );
+      const floating = await database.getSeriesInstances(task.seriesId!);
+      expect(floating.every(instance => instance.timeZone === undefined)).toBe(true);
+    });
+  });
+
+  describe('exceptions and overrides', () => {
+    const createCleaning = () =>
+      taskService.createTask({
+        title: 'Clean the kitchen',
+        type: 'chore',
+        dueDate: today,
+        dueTime: '18:00',
+        isRecurring: true,
+        recurrencePattern: 'weekly',
+        priority: 'medium',
+      });
+
+    const editFields = (task: { title: string; dueDate: string; dueTime?: string }) => ({
+      title: task.title,
+      type: 'chore' as const,
+      dueDate: task.dueDate,
+      dueTime: task.dueTime,
+      isRecurring: true,
+      recurrencePattern: 'weekly' as const,
+      priority: 'medium' as const,
+    });
+
+    it('does not bring back a cancelled occurrence when the series changes', async () => {
+      const task = await createCleaning();
+      const [, holiday] = await database.getSeriesInstances(task.seriesId!);
+
+      await taskService.deleteTaskWithScope(holiday.id, 'occurrence');
+      await taskService.updateTaskWithScope(task.id, { ...editFields(task), dueTime: '19:00' }, 'series');
+
+      const series = await taskService.getSeries(task.seriesId!);
+      const instances = await database.getSeriesInstances(task.seriesId!);
+      expect(series!.exceptionDates).toEqual([holiday.occurrenceDate]);
+      expect(instances.map(t => t.occurrenceDate)).not.toContain(holiday.occurrenceDate);
+      expect(instances.every(t => t.dueTime === '19:00')).toBe(true);
+    });
+
+    it('clears exceptions and overrides when the database is reset', async () => {
+      const task = await createCleaning();
+      const [, holiday, moved] = await database.getSeriesInstances(task.seriesId!);
+      await taskService.deleteTaskWithScope(holiday.id, 'occurrence');
+      await taskService.updateTaskWithScope(moved.id, { ...editFields(moved), dueTime: '20:00' }, 'occurrence');
+
+      await database.resetDatabase();
+
+      for (const table of ['series_exception_dates', 'series_overrides']) {
+        const [result] = await testDb.executeSql(`SELECT COUNT(*) AS count FROM ${table}`);
+        expect(result.rows.item(0).count).toBe(0);
+      }
+    });
+
+    it('keeps a moved occurrence when the series changes', async () => {
+      const task = await createCleaning();
+      const [, second] = await database.getSeriesInstances(task.seriesId!);
+      const thursday = addDays(second.dueDate, 3);
+
+      await taskService.updateTaskWithScope(
+        second.id,
+        { ...editFields(second), title: 'Deep clean', dueDate: thursday },
+        'occurrence'
+      );
+      await taskService.updateTaskWithScope(task.id, { ...editFields(task), dueTime: '19:00' }, 'series');
+
+      expect(await taskService.getTaskById(second.id)).toMatchObject({
+        title: 'Deep clean',
+        dueDate: thursday,
+        dueTime: '19:00',
+        occurrenceDate: second.occurrenceDate,
+      });
+      expect((await taskService.getTasks(thursday)).map(t => t.id)).toContain(second.id);
+    });
+
+    it('moves exceptions and overrides with the occurrences of a split series', async () => {
+      const task = await createCleaning();
+      const [, , third, fourth] = await database.getSeriesInstances(task.seriesId!);
+      await taskService.deleteTaskWithScope(fourth.id, 'occurrence');
+
+      const result = await taskService.updateTaskWithScope(
+        third.id,
+        { ...editFields(third), dueTime: '08:00' },
+        'following'
+      );
+
+      const newSeries = await taskService.getSeries(result.updatedTasks[0].seriesId!);
+      expect(newSeries!.exceptionDates).toEqual([fourth.occurrenceDate]);
+      expect((await taskService.getSeries(task.seriesId!))!.exceptionDates).toEqual([]);
+      expect((await database.getSeriesInstances(newSeries!.id)).map(t => t.occurrenceDate)).not.toContain(
+        fourth.occurrenceDate
+      );
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Category } from '../types';
+
+interface CategoryChipProps {
+  category: Category;
+}
+
+/**
+ * A small pill in the category's color, shown on task list items
+ */
+const CategoryChip: React.FC<CategoryChipProps> = ({ category }) => (
+  <View style={[styles.chip, { backgroundColor: category.color + '26', borderColor: category.color }]}>
+    {category.icon ? (
+      <Icon name={category.icon} size={12} color={category.color} />
+    ) : (
+      <View style={[styles.dot, { backgroundColor: category.color }]} />
+    )}
+    <Text style={[styles.name, { color: category.color }]} numberOfLines={1}>
+      {category.name}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 4,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  name: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+});
+
+export default CategoryChip;
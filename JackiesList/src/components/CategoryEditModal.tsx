@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Category } from '../types';
+import { categoryColors } from '../theme/colors';
+import { useTheme } from '../contexts/ThemeContext';
+
+// MaterialIcons offered for categories
+const categoryIcons = [
+  'home',
+  'work',
+  'school',
+  'shopping-cart',
+  'restaurant',
+  'fitness-center',
+  'local-hospital',
+  'pets',
+  'directions-car',
+  'attach-money',
+  'build',
+  'local-florist',
+  'child-care',
+  'flight',
+  'favorite',
+  'star',
+];
+
+interface CategoryEditModalProps {
+  visible: boolean;
+  category?: Category | null; // Edits this category when set, otherwise creates one
+  onSave: (fields: Pick<Category, 'name' | 'color' | 'icon'>) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Name, color and icon of a new or existing category
+ */
+const CategoryEditModal: React.FC<CategoryEditModalProps> = ({ visible, category, onSave, onDelete, onCancel }) => {
+  const { theme } = useTheme();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(categoryColors[0]);
+  const [icon, setIcon] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (visible) {
+      setName(category?.name ?? '');
+      setColor(category?.color ?? categoryColors[0]);
+      setIcon(category?.icon);
+    }
+  }, [visible, category]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+
+    onSave({ name: name.trim(), color, icon });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {category ? 'Edit category' : 'New category'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, { borderColor: theme.inputBorder, color: theme.text }]}
+            value={name}
+            onChangeText={setName}
+            placeholder="Category name"
+            placeholderTextColor={theme.textLight}
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Color</Text>
+          <View style={styles.grid}>
+            {categoryColors.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.swatch, { backgroundColor: option }, color === option && styles.selectedSwatch]}
+                onPress={() => setColor(option)}
+              >
+                {color === option && <Icon name="check" size={18} color="#FFF" />}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Icon</Text>
+          <View style={styles.grid}>
+            {categoryIcons.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.iconOption,
+                  { borderColor: icon === option ? color : theme.border },
+                ]}
+                onPress={() => setIcon(icon === option ? undefined : option)}
+              >
+                <Icon name={option} size={20} color={icon === option ? color : theme.textSecondary} />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.buttons}>
+            {onDelete && (
+              <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={onDelete}>
+                <Text style={[styles.buttonText, { color: theme.error }]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: theme.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={handleSave}>
+              <Text style={[styles.buttonText, { color: theme.primary }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  selectedSwatch: {
+    borderWidth: 2,
+    borderColor: '#FFF',
+  },
+  iconOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  deleteButton: {
+    marginRight: 'auto',
+    paddingLeft: 0,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default CategoryEditModal;
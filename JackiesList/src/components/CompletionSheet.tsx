@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, Alert } from 'react-native';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { CompletionDetails, TaskCompletion } from '../types';
+import { formatDate } from '../utils/date';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface CompletionSheetProps {
+  visible: boolean;
+  completion?: TaskCompletion | null; // Edits this completion, including its time, when set
+  onSave: (details: CompletionDetails & { completedAt?: string }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Captures the optional notes, value and photo recorded with a completion,
+ * either while completing a task or when correcting a past completion
+ */
+const CompletionSheet: React.FC<CompletionSheetProps> = ({ visible, completion, onSave, onCancel }) => {
+  const { theme } = useTheme();
+  const [completedAt, setCompletedAt] = useState(new Date());
+  const [notes, setNotes] = useState('');
+  const [value, setValue] = useState('');
+  const [photoPath, setPhotoPath] = useState('');
+  const [showPicker, setShowPicker] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCompletedAt(completion ? new Date(completion.completedAt) : new Date());
+      setNotes(completion?.notes || '');
+      setValue(completion?.value !== undefined ? completion.value.toString() : '');
+      setPhotoPath(completion?.photoPath || '');
+    }
+  }, [visible, completion]);
+
+  const handleSave = () => {
+    const parsedValue = value.trim() ? Number(value.trim().replace(',', '.')) : undefined;
+    if (parsedValue !== undefined && !Number.isFinite(parsedValue)) {
+      Alert.alert('Error', 'Please enter a number for the value');
+      return;
+    }
+
+    onSave({
+      completedAt: completion ? completedAt.toISOString() : undefined,
+      notes: notes.trim() || undefined,
+      value: parsedValue,
+      photoPath: photoPath.trim() || undefined,
+    });
+  };
+
+  const timeString = completedAt.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+  const inputStyle = [styles.input, { borderColor: theme.inputBorder, color: theme.text }];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {completion ? 'Edit completion' : 'Complete task'}
+          </Text>
+
+          {completion && (
+            <>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Completed at</Text>
+              <TouchableOpacity
+                style={[styles.input, styles.dateButton, { borderColor: theme.inputBorder }]}
+                onPress={() => setShowPicker(true)}
+              >
+                <Icon name="event" size={20} color={theme.textSecondary} />
+                <Text style={[styles.dateText, { color: theme.text }]}>
+                  {formatDate(completedAt)} at {timeString}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Notes</Text>
+          <TextInput
+            style={[inputStyle, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. filter size 20x25"
+            placeholderTextColor={theme.textLight}
+            multiline
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Value</Text>
+          <TextInput
+            style={inputStyle}
+            value={value}
+            onChangeText={setValue}
+            placeholder="Amount, duration or reading"
+            placeholderTextColor={theme.textLight}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Photo</Text>
+          <TextInput
+            style={inputStyle}
+            value={photoPath}
+            onChangeText={setPhotoPath}
+            placeholder="Path to a photo (optional)"
+            placeholderTextColor={theme.textLight}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: theme.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={handleSave}>
+              <Text style={[styles.buttonText, { color: theme.primary }]}>
+                {completion ? 'Save' : 'Complete'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      <DateTimePickerModal
+        isVisible={showPicker}
+        mode="datetime"
+        date={completedAt}
+        maximumDate={new Date()}
+        onConfirm={date => {
+          setShowPicker(false);
+          setCompletedAt(date);
+        }}
+        onCancel={() => setShowPicker(false)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateText: {
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
+
+export default CompletionSheet;
@@ -0,0 +1,289 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { RRule, RRuleFrequency, RRuleWeekday } from '../types';
+import { describeRRule, getWeekdayCode } from '../utils/recurrence';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface RRuleBuilderProps {
+  rule: RRule;
+  startDate: Date;
+  onChange: (rule: RRule) => void;
+}
+
+type DayChoice = RRuleWeekday | 'weekday' | 'weekend' | 'day';
+
+const frequencies: { value: RRuleFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year' },
+];
+
+const weekdays: { value: RRuleWeekday; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+const dayGroups: { value: DayChoice; label: string; days: RRuleWeekday[] }[] = [
+  { value: 'weekday', label: 'Weekday', days: ['MO', 'TU', 'WE', 'TH', 'FR'] },
+  { value: 'weekend', label: 'Weekend day', days: ['SA', 'SU'] },
+  { value: 'day', label: 'Day', days: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] },
+];
+
+const ordinals: { value: number; label: string }[] = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthDays = [...Array.from({ length: 31 }, (_, i) => i + 1), -1];
+
+/**
+ * Builds an RRULE from the common patterns: every N days, weeks on chosen
+ * weekdays, and days of the month or "the Nth weekday" of chosen months
+ */
+const RRuleBuilder: React.FC<RRuleBuilderProps> = ({ rule, startDate, onChange }) => {
+  const { theme } = useTheme();
+  const unit = frequencies.find(frequency => frequency.value === rule.freq)!.unit;
+  const usesWeekdayPosition = !!rule.byDay?.length;
+
+  // The "1st/2nd/.../Last <day>" selection, for monthly and yearly rules
+  const selectedOrdinal = rule.bySetPos?.[0] ?? rule.byDay?.[0]?.ordinal ?? 1;
+  const selectedDay: DayChoice =
+    dayGroups.find(
+      group =>
+        rule.byDay?.length === group.days.length &&
+        group.days.every(day => rule.byDay!.some(byDay => byDay.weekday === day))
+    )?.value ??
+    rule.byDay?.[0]?.weekday ??
+    getWeekdayCode(startDate);
+
+  const changeFrequency = (freq: RRuleFrequency) => {
+    const next: RRule = { freq, interval: rule.interval };
+    if (freq === 'WEEKLY') {
+      next.byDay = [{ weekday: getWeekdayCode(startDate) }];
+    } else if (freq === 'MONTHLY') {
+      next.byMonthDay = [startDate.getDate()];
+    } else if (freq === 'YEARLY') {
+      next.byMonth = [startDate.getMonth() + 1];
+      next.byMonthDay = [startDate.getDate()];
+    }
+    onChange(next);
+  };
+
+  const changeInterval = (text: string) => {
+    const interval = parseInt(text, 10);
+    onChange({ ...rule, interval: interval > 0 ? interval : undefined });
+  };
+
+  const toggleWeekday = (weekday: RRuleWeekday) => {
+    const current = rule.byDay || [];
+    const isSelected = current.some(day => day.weekday === weekday);
+    if (isSelected && current.length === 1) return; // Keep at least one day
+
+    const selected = isSelected
+      ? current.filter(day => day.weekday !== weekday)
+      : [...current, { weekday }];
+    onChange({
+      ...rule,
+      byDay: weekdays.filter(day => selected.some(s => s.weekday === day.value)).map(day => ({ weekday: day.value })),
+    });
+  };
+
+  const toggleMonthDay = (monthDay: number) => {
+    const current = rule.byMonthDay || [];
+    const isSelected = current.includes(monthDay);
+    if (isSelected && current.length === 1) return;
+
+    const selected = isSelected ? current.filter(day => day !== monthDay) : [...current, monthDay];
+    onChange({ ...rule, byMonthDay: monthDays.filter(day => selected.includes(day)) });
+  };
+
+  const toggleMonth = (month: number) => {
+    const current = rule.byMonth || [];
+    const isSelected = current.includes(month);
+    if (isSelected && current.length === 1) return;
+
+    const selected = isSelected ? current.filter(m => m !== month) : [...current, month];
+    onChange({ ...rule, byMonth: selected.sort((a, b) => a - b) });
+  };
+
+  const selectWeekdayPosition = (ordinal: number, day: DayChoice) => {
+    const group = dayGroups.find(g => g.value === day);
+    onChange({
+      ...rule,
+      byMonthDay: undefined,
+      // A group of days picks the Nth of the matching days with BYSETPOS
+      byDay: group
+        ? group.days.map(weekday => ({ weekday }))
+        : [{ weekday: day as RRuleWeekday, ordinal }],
+      bySetPos: group ? [ordinal] : undefined,
+    });
+  };
+
+  const selectMonthDayMode = () => {
+    onChange({ ...rule, byDay: undefined, bySetPos: undefined, byMonthDay: [startDate.getDate()] });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder },
+        selected && { backgroundColor: theme.primary, borderColor: theme.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: theme.textSecondary }, selected && { color: theme.surface }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {frequencies.map(frequency =>
+          renderChip(frequency.value, frequency.label, rule.freq === frequency.value, () =>
+            changeFrequency(frequency.value)
+          )
+        )}
+      </View>
+
+      <View style={styles.intervalRow}>
+        <Text style={[styles.text, { color: theme.text }]}>Every</Text>
+        <TextInput
+          style={[styles.intervalInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+          value={rule.interval ? rule.interval.toString() : ''}
+          onChangeText={changeInterval}
+          placeholder="1"
+          placeholderTextColor={theme.textLight}
+          keyboardType="numeric"
+        />
+        <Text style={[styles.text, { color: theme.text }]}>
+          {(rule.interval ?? 1) === 1 ? unit : `${unit}s`}
+        </Text>
+      </View>
+
+      {rule.freq === 'WEEKLY' && (
+        <View style={styles.chipRow}>
+          {weekdays.map(day =>
+            renderChip(day.value, day.label, !!rule.byDay?.some(byDay => byDay.weekday === day.value), () =>
+              toggleWeekday(day.value)
+            )
+          )}
+        </View>
+      )}
+
+      {rule.freq === 'YEARLY' && (
+        <>
+          <Text style={[styles.subLabel, { color: theme.textSecondary }]}>In</Text>
+          <View style={styles.chipRow}>
+            {months.map((month, index) =>
+              renderChip(month, month, !!rule.byMonth?.includes(index + 1), () => toggleMonth(index + 1))
+            )}
+          </View>
+        </>
+      )}
+
+      {(rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && (
+        <>
+          <Text style={[styles.subLabel, { color: theme.textSecondary }]}>On</Text>
+          <View style={styles.chipRow}>
+            {renderChip('month-day', 'Day of month', !usesWeekdayPosition, selectMonthDayMode)}
+            {renderChip('weekday-position', 'Day of week', usesWeekdayPosition, () =>
+              selectWeekdayPosition(selectedOrdinal, selectedDay)
+            )}
+          </View>
+
+          {usesWeekdayPosition ? (
+            <>
+              <View style={styles.chipRow}>
+                {ordinals.map(ordinal =>
+                  renderChip(`ordinal-${ordinal.value}`, ordinal.label, selectedOrdinal === ordinal.value, () =>
+                    selectWeekdayPosition(ordinal.value, selectedDay)
+                  )
+                )}
+              </View>
+              <View style={styles.chipRow}>
+                {[...weekdays, ...dayGroups].map(day =>
+                  renderChip(`day-${day.value}`, day.label, selectedDay === day.value, () =>
+                    selectWeekdayPosition(selectedOrdinal, day.value)
+                  )
+                )}
+              </View>
+            </>
+          ) : (
+            <View style={styles.chipRow}>
+              {monthDays.map(day =>
+                renderChip(`month-day-${day}`, day === -1 ? 'Last' : day.toString(), !!rule.byMonthDay?.includes(day), () =>
+                  toggleMonthDay(day)
+                )
+              )}
+            </View>
+          )}
+        </>
+      )}
+
+      <Text style={[styles.summary, { color: theme.primary }]}>{describeRRule(rule)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  intervalInput: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginHorizontal: 10,
+    minWidth: 50,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  text: {
+    fontSize: 16,
+  },
+  subLabel: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  summary: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+});
+
+export default RRuleBuilder;
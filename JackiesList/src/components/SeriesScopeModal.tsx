@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { SeriesEditScope } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: SeriesEditScope) => void;
+  onCancel: () => void;
+}
+
+const scopeOptions: { value: SeriesEditScope; label: string; icon: string }[] = [
+  { value: 'occurrence', label: 'This occurrence', icon: 'event' },
+  { value: 'following', label: 'This and following occurrences', icon: 'arrow-forward' },
+  { value: 'series', label: 'All occurrences', icon: 'repeat' },
+];
+
+const SeriesScopeModal: React.FC<SeriesScopeModalProps> = ({ visible, action, onSelect, onCancel }) => {
+  const { theme } = useTheme();
+  const accentColor = action === 'delete' ? theme.error : theme.primary;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {action === 'delete' ? 'Delete recurring task' : 'Edit recurring task'}
+          </Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Apply this change to:
+          </Text>
+
+          {scopeOptions.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, { borderColor: theme.border }]}
+              onPress={() => onSelect(option.value)}
+            >
+              <Icon name={option.icon} size={20} color={accentColor} />
+              <Text style={[styles.optionText, { color: accentColor }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={[styles.cancelText, { color: theme.textSecondary }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 12,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+  },
+});
+
+export default SeriesScopeModal;
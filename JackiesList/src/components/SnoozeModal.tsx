@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { SnoozeOption } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface SnoozeModalProps {
+  visible: boolean;
+  onSelect: (option: SnoozeOption) => void;
+  onReschedule: () => void;
+  onCancel: () => void;
+}
+
+const snoozeOptions: { value: SnoozeOption; label: string; icon: string }[] = [
+  { value: 'hour', label: '1 hour', icon: 'schedule' },
+  { value: 'day', label: '1 day', icon: 'today' },
+  { value: 'weekend', label: 'Next weekend', icon: 'weekend' },
+];
+
+const SnoozeModal: React.FC<SnoozeModalProps> = ({ visible, onSelect, onReschedule, onCancel }) => {
+  const { theme } = useTheme();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.title, { color: theme.text }]}>Snooze task</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Move this task by:
+          </Text>
+
+          {snoozeOptions.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, { borderColor: theme.border }]}
+              onPress={() => onSelect(option.value)}
+            >
+              <Icon name={option.icon} size={20} color={theme.primary} />
+              <Text style={[styles.optionText, { color: theme.primary }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.option, { borderColor: theme.border }]}
+            onPress={onReschedule}
+          >
+            <Icon name="event" size={20} color={theme.primary} />
+            <Text style={[styles.optionText, { color: theme.primary }]}>Pick a date...</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={[styles.cancelText, { color: theme.textSecondary }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 12,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+  },
+});
+
+export default SnoozeModal;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, FlatList } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Task } from '../types';
+import { formatDate } from '../utils/date';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface TaskPickerModalProps {
+  visible: boolean;
+  title: string;
+  tasks: Task[];
+  onSelect: (task: Task) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user pick one of the given tasks, narrowed down by a title search
+ */
+const TaskPickerModal: React.FC<TaskPickerModalProps> = ({ visible, title, tasks, onSelect, onCancel }) => {
+  const { theme } = useTheme();
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setSearch('');
+    }
+  }, [visible]);
+
+  const query = search.trim().toLowerCase();
+  const matches = query ? tasks.filter(task => task.title.toLowerCase().includes(query)) : tasks;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.title, { color: theme.text }]}>{title}</Text>
+          <TextInput
+            style={[styles.search, { borderColor: theme.inputBorder, color: theme.text }]}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search tasks"
+            placeholderTextColor={theme.textLight}
+          />
+
+          <FlatList
+            data={matches}
+            keyExtractor={task => task.id}
+            style={styles.list}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No matching tasks</Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.option, { borderColor: theme.border }]}
+                onPress={() => onSelect(item)}
+              >
+                <Icon name="radio-button-unchecked" size={20} color={theme.primary} />
+                <View style={styles.optionInfo}>
+                  <Text style={[styles.optionTitle, { color: theme.text }]}>{item.title}</Text>
+                  <Text style={[styles.optionDate, { color: theme.textSecondary }]}>
+                    {formatDate(item.dueDate)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            )}
+          />
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={[styles.cancelText, { color: theme.textSecondary }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  search: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  optionInfo: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+  },
+  optionDate: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+  },
+});
+
+export default TaskPickerModal;
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Text, StyleSheet, Animated, TouchableOpacity } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface UndoToastProps {
+  visible: boolean;
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+/**
+ * A message pinned to the bottom of the screen with an Undo button, hidden
+ * again after `duration` milliseconds
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ visible, message, onUndo, onDismiss, duration = 5000 }) => {
+  const { theme } = useTheme();
+  const [fadeAnim] = useState(new Animated.Value(0));
+  // Re-renders of the screen should not restart the timer
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  useEffect(() => {
+    if (!visible) {
+      fadeAnim.setValue(0);
+      return;
+    }
+
+    Animated.timing(fadeAnim, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+
+    const timer = setTimeout(() => onDismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [visible, message, duration, fadeAnim]);
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <Animated.View style={[styles.toast, { backgroundColor: theme.text, opacity: fadeAnim }]}>
+      <Text style={[styles.message, { color: theme.surface }]} numberOfLines={2}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton}>
+        <Text style={[styles.undoText, { color: theme.primary }]}>UNDO</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingLeft: 16,
+    paddingRight: 8,
+    elevation: 4,
+  },
+  message: {
+    flex: 1,
+    fontSize: 15,
+  },
+  undoButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  undoText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default UndoToast;
@@ -11,6 +11,8 @@ import CreateTaskScreen from '../screens/CreateTaskScreen';
 import TaskDetailScreen from '../screens/TaskDetailScreen';
 import CalendarScreen from '../screens/CalendarScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import CategoriesScreen from '../screens/CategoriesScreen';
+import SearchScreen from '../screens/SearchScreen';
 
 const Tab = createBottomTabNavigator();
 const Stack = createStackNavigator();
@@ -21,6 +23,7 @@ const DashboardStack = () => {
       <Stack.Screen name="Dashboard" component={DashboardScreen} />
       <Stack.Screen name="CreateTask" component={CreateTaskScreen} />
       <Stack.Screen name="TaskDetail" component={TaskDetailScreen as any} />
+      <Stack.Screen name="Search" component={SearchScreen} />
     </Stack.Navigator>
   );
 };
@@ -35,6 +38,15 @@ const CalendarStack = () => {
   );
 };
 
+const SettingsStack = () => {
+  return (
+    <Stack.Navigator screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="SettingsHome" component={SettingsScreen} />
+      <Stack.Screen name="Categories" component={CategoriesScreen} />
+    </Stack.Navigator>
+  );
+};
+
 const AppNavigator = () => {
   const { theme, isDark } = useTheme();
   
@@ -99,7 +111,7 @@ const AppNavigator = () => {
         <Tab.Screen name="Home" component={DashboardStack} />
         <Tab.Screen name="Calendar" component={CalendarStack} />
         <Tab.Screen name="Stats" component={ComingSoonScreen} />
-        <Tab.Screen name="Settings" component={SettingsScreen} />
+        <Tab.Screen name="Settings" component={SettingsStack} />
       </Tab.Navigator>
     </NavigationContainer>
   );
@@ -12,10 +12,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
 import { Calendar, DateData } from 'react-native-calendars';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { Task } from '../types';
+import { Task, Category } from '../types';
 import taskService from '../services/taskService';
-import { formatTime, isPastDue, getDateString } from '../utils/date';
+import notificationService from '../services/notificationService';
+import { formatDate, formatDueTime, isPastDue, getDateString, parseLocalDate, addDays } from '../utils/date';
 import { useTheme } from '../contexts/ThemeContext';
+import UndoToast from '../components/UndoToast';
+import CategoryChip from '../components/CategoryChip';
 
 const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const { theme } = useTheme();
@@ -24,73 +27,64 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [markedDates, setMarkedDates] = useState<any>({});
   const [refreshing, setRefreshing] = useState(false);
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set());
+  const [categories, setCategories] = useState<Map<string, Category>>(new Map());
+  // The task just completed, which the undo toast can reopen
+  const [undoTask, setUndoTask] = useState<Task | null>(null);
 
   const loadCalendarData = async () => {
     try {
       console.log('CalendarScreen: Loading calendar data...');
       
       // Load tasks for the next 30 days to mark calendar dates
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + 30);
-      
-      const allTasks: Task[] = [];
+      const today = getDateString(new Date());
+      const tasksByDate = await taskService.getTasksInRange(today, addDays(today, 30));
+      const allTasks = [...tasksByDate.values()].flat();
+      const completions = await taskService.getCompletionsForTasks(allTasks.map(task => task.id));
       const marks: any = {};
       
-      // Get tasks for each day in the range
-      for (let d = new Date(); d <= endDate; d.setDate(d.getDate() + 1)) {
-        const dateStr = getDateString(d);
-        const dayTasks = await taskService.getTasks(dateStr);
-        allTasks.push(...dayTasks);
+      for (const [dateStr, dayTasks] of tasksByDate) {
+        // Check completion status
+        let completedCount = 0;
+        let overdueCount = 0;
         
-        if (dayTasks.length > 0) {
-          // Check completion status
-          let completedCount = 0;
-          let overdueCount = 0;
-          const today = getDateString(new Date());
-          
-          for (const task of dayTasks) {
-            const isCompleted = await taskService.isTaskCompletedToday(task.id);
-            if (isCompleted) {
-              completedCount++;
-            } else {
-              // Simple overdue logic: task is overdue if its date is before today
-              // OR if it's today and has a time that has passed
-              let isTaskOverdue = false;
-              
-              if (dateStr < today) {
-                // Past date - definitely overdue
-                isTaskOverdue = true;
-              } else if (dateStr === today && task.dueTime) {
-                // Today with specific time - check if time has passed
-                const now = new Date();
-                const taskDateTime = new Date(task.dueDate);
-                const [hours, minutes] = task.dueTime.split(':');
-                taskDateTime.setHours(parseInt(hours, 10), parseInt(minutes, 10));
-                isTaskOverdue = taskDateTime < now;
-              }
-              // Future dates (dateStr > today) are never overdue
-              
-              if (isTaskOverdue) {
-                overdueCount++;
-              }
+        for (const task of dayTasks) {
+          if (completions.has(task.id)) {
+            completedCount++;
+          } else if (!task.skippedAt) {
+            // Skipped occurrences are never overdue, as on the dashboard
+            // Simple overdue logic: task is overdue if its date is before today
+            // OR if it's today and has a time that has passed
+            let isTaskOverdue = false;
+            
+            if (dateStr < today) {
+              // Past date - definitely overdue
+              isTaskOverdue = true;
+            } else if (dateStr === today && task.dueTime) {
+              // Today with specific time - check if time has passed
+              isTaskOverdue = parseLocalDate(task.dueDate, task.dueTime, task.timeZone) < new Date();
+            }
+            // Future dates (dateStr > today) are never overdue
+            
+            if (isTaskOverdue) {
+              overdueCount++;
             }
           }
-          
-          // Determine mark color based on task status
-          let dotColor = theme.primary; // Default blue for pending tasks
-          if (completedCount === dayTasks.length) {
-            dotColor = theme.success; // Green for all completed
-          } else if (overdueCount > 0) {
-            dotColor = theme.error; // Red for any overdue
-          }
-          
-          marks[dateStr] = {
-            marked: true,
-            dotColor,
-            selectedColor: selectedDate === dateStr ? theme.primary : undefined,
-            selected: selectedDate === dateStr,
-          };
         }
+        
+        // Determine mark color based on task status
+        let dotColor = theme.primary; // Default blue for pending tasks
+        if (completedCount === dayTasks.length) {
+          dotColor = theme.success; // Green for all completed
+        } else if (overdueCount > 0) {
+          dotColor = theme.error; // Red for any overdue
+        }
+        
+        marks[dateStr] = {
+          marked: true,
+          dotColor,
+          selectedColor: selectedDate === dateStr ? theme.primary : undefined,
+          selected: selectedDate === dateStr,
+        };
       }
       
       // Add selection for current date even if no tasks
@@ -102,6 +96,9 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       }
       
       setMarkedDates(marks);
+
+      const categoryList = await taskService.getCategories();
+      setCategories(new Map(categoryList.map(category => [category.id, category])));
       
       // Load tasks for currently selected date
       await loadTasksForDate(selectedDate);
@@ -119,14 +116,8 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       setTasksForDate(tasks);
       
       // Load completion status for tasks
-      const completedTaskIds = new Set<string>();
-      for (const task of tasks) {
-        const isCompleted = await taskService.isTaskCompletedToday(task.id);
-        if (isCompleted) {
-          completedTaskIds.add(task.id);
-        }
-      }
-      setCompletedTasks(completedTaskIds);
+      const completionState = await taskService.getCompletionState(tasks.map(task => task.id));
+      setCompletedTasks(new Set(completionState.keys()));
     } catch (error) {
       console.error('Error loading tasks for date:', error);
       Alert.alert('Error', 'Failed to load tasks for selected date');
@@ -177,8 +168,12 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
 
   const handleCompleteTask = async (task: Task) => {
     try {
-      await taskService.completeTask(task.id);
+      const nextTask = await taskService.completeTask(task.id);
+      if (nextTask?.dueTime) {
+        notificationService.scheduleTaskNotification(nextTask);
+      }
       setCompletedTasks(prev => new Set([...prev, task.id]));
+      setUndoTask(task);
       
       // Reload calendar data to update markers
       await loadCalendarData();
@@ -187,13 +182,30 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       const errorMessage = error instanceof Error ? error.message : 'Failed to complete task';
       
       if (errorMessage.includes('already completed')) {
-        Alert.alert('Already Completed', 'This task has already been completed today.');
+        Alert.alert('Already Completed', 'This task has already been completed.');
       } else {
         Alert.alert('Error', errorMessage);
       }
     }
   };
 
+  const handleUndoComplete = async () => {
+    if (!undoTask) return;
+    const task = undoTask;
+    setUndoTask(null);
+
+    try {
+      const removedTaskId = await taskService.uncompleteTask(task.id);
+      if (removedTaskId) {
+        notificationService.cancelTaskNotification(removedTaskId);
+      }
+      await loadCalendarData();
+    } catch (error) {
+      console.error('Error reopening task:', error);
+      Alert.alert('Error', 'Failed to reopen task');
+    }
+  };
+
   const getTaskIcon = (type: Task['type']) => {
     switch (type) {
       case 'appointment':
@@ -221,8 +233,11 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   };
 
   const renderTask = (task: Task) => {
-    const isOverdue = isPastDue(task.dueDate, task.dueTime);
+    const isOverdue = isPastDue(task.dueDate, task.dueTime, task.timeZone);
     const isCompleted = completedTasks.has(task.id);
+    // Occurrences moved off their series date are listed on the day they moved to
+    const isMoved = !!task.occurrenceDate && task.occurrenceDate !== task.dueDate;
+    const category = task.categoryId ? categories.get(task.categoryId) : undefined;
     
     return (
       <TouchableOpacity
@@ -249,8 +264,14 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
             ]}>
               {task.title}
             </Text>
+            {category && <CategoryChip category={category} />}
             {task.dueTime && (
-              <Text style={[styles.taskTime, { color: theme.textSecondary }]}>{formatTime(task.dueTime)}</Text>
+              <Text style={[styles.taskTime, { color: theme.textSecondary }]}>{formatDueTime(task.dueDate, task.dueTime, task.timeZone)}</Text>
+            )}
+            {isMoved && (
+              <Text style={[styles.movedText, { color: theme.textSecondary }]}>
+                Moved from {formatDate(task.occurrenceDate!)}
+              </Text>
             )}
           </View>
         </View>
@@ -369,6 +390,13 @@ const CalendarScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           )}
         </View>
       </ScrollView>
+
+      <UndoToast
+        visible={!!undoTask}
+        message={undoTask ? `Completed "${undoTask.title}"` : ''}
+        onUndo={handleUndoComplete}
+        onDismiss={() => setUndoTask(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -464,6 +492,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 2,
   },
+  movedText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   completeButton: {
     padding: 5,
   },
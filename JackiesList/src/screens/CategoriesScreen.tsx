@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Category } from '../types';
+import taskService from '../services/taskService';
+import { useTheme } from '../contexts/ThemeContext';
+import CategoryEditModal from '../components/CategoryEditModal';
+
+const CategoriesScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [reassigningCategory, setReassigningCategory] = useState<Category | null>(null);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await taskService.getCategories());
+    } catch (error) {
+      console.error('Error loading categories:', error);
+      Alert.alert('Error', 'Failed to load categories');
+    }
+  };
+
+  const openEditor = (category: Category | null) => {
+    setEditingCategory(category);
+    setShowEditModal(true);
+  };
+
+  const handleSaveCategory = async (fields: Pick<Category, 'name' | 'color' | 'icon'>) => {
+    try {
+      if (editingCategory) {
+        await taskService.updateCategory(editingCategory.id, fields);
+      } else {
+        await taskService.createCategory(fields.name, fields.color, fields.icon);
+      }
+      setShowEditModal(false);
+      await loadCategories();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save category');
+    }
+  };
+
+  const handleMoveCategory = async (index: number, offset: number) => {
+    const reordered = [...categories];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setCategories(reordered);
+
+    try {
+      await taskService.reorderCategories(reordered.map(category => category.id));
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      await loadCategories();
+    }
+  };
+
+  const deleteCategory = async (category: Category, reassignToId?: string) => {
+    try {
+      await taskService.deleteCategory(category.id, reassignToId);
+      setReassigningCategory(null);
+      await loadCategories();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete category');
+    }
+  };
+
+  const handleDeleteCategory = async () => {
+    const category = editingCategory;
+    if (!category) return;
+    setShowEditModal(false);
+
+    const taskCount = await taskService.countCategoryTasks(category.id);
+    if (taskCount === 0) {
+      Alert.alert('Delete Category', `Delete "${category.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteCategory(category) },
+      ]);
+      return;
+    }
+
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Uncategorize', style: 'destructive', onPress: () => deleteCategory(category) },
+    ];
+    if (categories.length > 1) {
+      buttons.push({ text: 'Move to…', onPress: () => setReassigningCategory(category) });
+    }
+
+    Alert.alert(
+      'Delete Category',
+      `"${category.name}" has ${taskCount} task${taskCount === 1 ? '' : 's'}. Move them to another category or leave them uncategorized?`,
+      buttons
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: theme.headerBackground, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Categories</Text>
+        <TouchableOpacity onPress={() => openEditor(null)}>
+          <Icon name="add" size={24} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {categories.length === 0 && (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            No categories yet. Tap + to add one.
+          </Text>
+        )}
+        {categories.map((category, index) => (
+          <View key={category.id} style={[styles.categoryRow, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+            <TouchableOpacity style={styles.categoryInfo} onPress={() => openEditor(category)}>
+              <View style={[styles.categoryIcon, { backgroundColor: category.color }]}>
+                {category.icon && <Icon name={category.icon} size={18} color="#FFF" />}
+              </View>
+              <Text style={[styles.categoryName, { color: theme.text }]}>{category.name}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.moveButton}
+              disabled={index === 0}
+              onPress={() => handleMoveCategory(index, -1)}
+            >
+              <Icon name="keyboard-arrow-up" size={24} color={index === 0 ? theme.border : theme.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.moveButton}
+              disabled={index === categories.length - 1}
+              onPress={() => handleMoveCategory(index, 1)}
+            >
+              <Icon
+                name="keyboard-arrow-down"
+                size={24}
+                color={index === categories.length - 1 ? theme.border : theme.textSecondary}
+              />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      <CategoryEditModal
+        visible={showEditModal}
+        category={editingCategory}
+        onSave={handleSaveCategory}
+        onDelete={editingCategory ? handleDeleteCategory : undefined}
+        onCancel={() => setShowEditModal(false)}
+      />
+
+      <Modal
+        visible={!!reassigningCategory}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setReassigningCategory(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={[styles.sheet, { backgroundColor: theme.surface }]}>
+            <Text style={[styles.sheetTitle, { color: theme.text }]}>
+              Move tasks from "{reassigningCategory?.name}" to
+            </Text>
+            {categories
+              .filter(category => category.id !== reassigningCategory?.id)
+              .map(category => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.option, { borderColor: theme.border }]}
+                  onPress={() => reassigningCategory && deleteCategory(reassigningCategory, category.id)}
+                >
+                  <View style={[styles.optionDot, { backgroundColor: category.color }]} />
+                  <Text style={[styles.optionText, { color: theme.text }]}>{category.name}</Text>
+                </TouchableOpacity>
+              ))}
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setReassigningCategory(null)}>
+              <Text style={[styles.cancelText, { color: theme.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    padding: 40,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+  },
+  categoryInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  categoryName: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  moveButton: {
+    padding: 4,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  optionDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  optionText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+  },
+});
+
+export default CategoriesScreen;
@@ -13,11 +13,26 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import DateTimePickerModal from 'react-native-modal-datetime-picker';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { Task, TaskType, RecurrencePattern, Priority } from '../types';
+import {
+  Task,
+  TaskType,
+  Category,
+  Tag,
+  RecurrencePattern,
+  RecurrenceMode,
+  Priority,
+  SeriesEditScope,
+  RRule,
+} from '../types';
 import taskService from '../services/taskService';
 import notificationService from '../services/notificationService';
-import { getDateString, getTimeString } from '../utils/date';
+import { getDateString, getDeviceTimeZone, getTimeString, isValidTimeZone } from '../utils/date';
+import { formatRecurrenceText, formatRRule, getWeekdayCode, parseRRule } from '../utils/recurrence';
 import { useTheme } from '../contexts/ThemeContext';
+import SeriesScopeModal from '../components/SeriesScopeModal';
+import RRuleBuilder from '../components/RRuleBuilder';
+
+type RecurrenceEnd = 'never' | 'date' | 'count';
 
 const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigation, route }) => {
   const { theme } = useTheme();
@@ -26,17 +41,43 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
   const [description, setDescription] = useState('');
   const [type, setType] = useState<TaskType>('task');
   const [priority, setPriority] = useState<Priority>('medium');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryId, setCategoryId] = useState<string | undefined>(undefined);
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [knownTags, setKnownTags] = useState<Tag[]>([]); // Offered as suggestions
   const [dueDate, setDueDate] = useState(() => {
     const today = new Date();
     today.setHours(12, 0, 0, 0); // Set to noon to avoid timezone issues
     return today;
   });
   const [dueTime, setDueTime] = useState<Date | null>(null);
+  const [timeZone, setTimeZone] = useState<string | null>(null); // null while floating
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurrencePattern, setRecurrencePattern] = useState<RecurrencePattern>('daily');
+  const [recurrenceMode, setRecurrenceMode] = useState<RecurrenceMode>('schedule');
   const [customInterval, setCustomInterval] = useState('');
+  const [rrule, setRRule] = useState<RRule | null>(null);
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>('never');
+  const [untilDate, setUntilDate] = useState<Date | null>(null);
+  const [occurrenceCount, setOccurrenceCount] = useState('');
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [checklist, setChecklist] = useState<string[]>([]);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [autoCompleteChecklist, setAutoCompleteChecklist] = useState(false);
+  const [editSeriesId, setEditSeriesId] = useState<string | null>(null);
+  const [showScopeModal, setShowScopeModal] = useState(false);
+
+  useEffect(() => {
+    taskService.getCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading categories:', error));
+    taskService.getTags()
+      .then(setKnownTags)
+      .catch(error => console.error('Error loading tags:', error));
+  }, []);
 
   // Load existing task data if editing
   useEffect(() => {
@@ -49,6 +90,7 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
             setDescription(task.description || '');
             setType(task.type);
             setPriority(task.priority);
+            setCategoryId(task.categoryId ?? undefined);
             setDueDate(new Date(task.dueDate + 'T12:00:00'));
             
             if (task.dueTime) {
@@ -57,13 +99,35 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
               timeDate.setHours(parseInt(hours, 10), parseInt(minutes, 10));
               setDueTime(timeDate);
             }
+            setTimeZone(task.timeZone ?? null);
+            setChecklist((await taskService.getSubtasks(task.id)).map(item => item.title));
+            setTags(((await taskService.getTaskTags([task.id])).get(task.id) ?? []).map(tag => tag.name));
+            setAutoCompleteChecklist(!!task.autoCompleteChecklist);
             
-            setIsRecurring(task.isRecurring || false);
-            if (task.recurrencePattern) {
-              setRecurrencePattern(task.recurrencePattern);
+            // Instances of a series show the series' recurrence
+            const series = task.seriesId ? await taskService.getSeries(task.seriesId) : null;
+            const recurrenceSource = series || task;
+
+            setIsRecurring(!!series || task.isRecurring || false);
+            setEditSeriesId(series ? series.id : null);
+            if (recurrenceSource.recurrencePattern) {
+              setRecurrencePattern(recurrenceSource.recurrencePattern);
+            }
+            if (recurrenceSource.recurrenceInterval) {
+              setCustomInterval(recurrenceSource.recurrenceInterval.toString());
             }
-            if (task.recurrenceInterval) {
-              setCustomInterval(task.recurrenceInterval.toString());
+            if (recurrenceSource.rrule) {
+              setRRule(parseRRule(recurrenceSource.rrule));
+            }
+            if (series) {
+              setRecurrenceMode(series.recurrenceMode);
+              if (series.occurrenceCount) {
+                setRecurrenceEnd('count');
+                setOccurrenceCount(series.occurrenceCount.toString());
+              } else if (series.untilDate) {
+                setRecurrenceEnd('date');
+                setUntilDate(new Date(series.untilDate + 'T12:00:00'));
+              }
             }
           }
         } catch (error) {
@@ -96,41 +160,135 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
     { value: 'quarterly', label: 'Every 3 months' },
     { value: 'annually', label: 'Yearly' },
     { value: 'custom', label: 'Custom days' },
+    { value: 'rrule', label: 'Custom rule' },
+  ];
+
+  const recurrenceModes: { value: RecurrenceMode; label: string }[] = [
+    { value: 'schedule', label: 'On a schedule' },
+    { value: 'completion', label: 'After completion' },
   ];
 
+  const recurrenceEnds: { value: RecurrenceEnd; label: string }[] = [
+    { value: 'never', label: 'Never' },
+    { value: 'date', label: 'On date' },
+    { value: 'count', label: 'After' },
+  ];
+
+  // Calendar rules have no meaning when counting from the last completion
+  const availableRecurrenceOptions = recurrenceMode === 'completion'
+    ? recurrenceOptions.filter(option => option.value !== 'rrule')
+    : recurrenceOptions;
+
+  const handleRecurrenceModeChange = (mode: RecurrenceMode) => {
+    setRecurrenceMode(mode);
+    if (mode === 'completion' && recurrencePattern === 'rrule') {
+      setRecurrencePattern('daily');
+    }
+  };
+
+  const addChecklistItem = () => {
+    if (newChecklistItem.trim()) {
+      setChecklist([...checklist, newChecklistItem.trim()]);
+      setNewChecklistItem('');
+    }
+  };
+
+  const updateChecklistItem = (index: number, item: string) => {
+    setChecklist(checklist.map((current, i) => (i === index ? item : current)));
+  };
+
+  const removeChecklistItem = (index: number) => {
+    setChecklist(checklist.filter((_, i) => i !== index));
+  };
+
+  const addTag = (name: string) => {
+    const tag = name.trim();
+    if (tag && !tags.some(current => current.toLowerCase() === tag.toLowerCase())) {
+      setTags([...tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  const removeTag = (name: string) => {
+    setTags(tags.filter(current => current !== name));
+  };
+
+  // Known tags containing what has been typed so far, not yet on the task
+  const tagQuery = newTag.trim().toLowerCase();
+  const tagSuggestions = tagQuery
+    ? knownTags
+        .filter(tag => tag.name.toLowerCase().includes(tagQuery))
+        .filter(tag => !tags.some(current => current.toLowerCase() === tag.name.toLowerCase()))
+        .slice(0, 5)
+    : [];
+
+  // A new rule starts as "weekly on the due date's weekday"
+  const currentRRule: RRule = rrule || { freq: 'WEEKLY', byDay: [{ weekday: getWeekdayCode(dueDate) }] };
+
+  const buildTaskData = (): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> => ({
+    title: title.trim(),
+    description: description.trim(),
+    type,
+    priority,
+    categoryId,
+    dueDate: getDateString(dueDate),
+    dueTime: dueTime ? getTimeString(dueTime) : undefined,
+    timeZone: dueTime && timeZone ? timeZone.trim() : undefined,
+    isRecurring,
+    recurrencePattern: isRecurring ? recurrencePattern : undefined,
+    recurrenceInterval: recurrencePattern === 'custom' ? parseInt(customInterval, 10) : undefined,
+    rrule: isRecurring && recurrencePattern === 'rrule' ? formatRRule(currentRRule) : undefined,
+    recurrenceMode: isRecurring ? recurrenceMode : undefined,
+    recurrenceUntil: isRecurring && recurrenceEnd === 'date' && untilDate ? getDateString(untilDate) : undefined,
+    recurrenceCount: isRecurring && recurrenceEnd === 'count' ? parseInt(occurrenceCount, 10) : undefined,
+    autoCompleteChecklist: checklist.length > 0 && autoCompleteChecklist,
+  });
+
   const handleSave = async () => {
     if (!title.trim()) {
       Alert.alert('Error', 'Please enter a task title');
       return;
     }
 
+    if (dueTime && timeZone !== null && !isValidTimeZone(timeZone.trim())) {
+      Alert.alert('Error', 'Please enter a valid time zone, e.g. America/New_York');
+      return;
+    }
+
+    if (isRecurring && recurrenceEnd === 'date' && (!untilDate || getDateString(untilDate) < getDateString(dueDate))) {
+      Alert.alert('Error', 'Please choose an end date on or after the due date');
+      return;
+    }
+
+    if (isRecurring && recurrenceEnd === 'count' && !(parseInt(occurrenceCount, 10) > 0)) {
+      Alert.alert('Error', 'Please enter how many times the task repeats');
+      return;
+    }
+
+    if (editTaskId && editSeriesId) {
+      // Ask which occurrences of the series the edit applies to
+      setShowScopeModal(true);
+      return;
+    }
+
+    await saveTask('occurrence');
+  };
+
+  const saveTask = async (scope: SeriesEditScope) => {
+    setShowScopeModal(false);
+
     try {
-      const taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'> = {
-        title: title.trim(),
-        description: description.trim(),
-        type,
-        priority,
-        dueDate: getDateString(dueDate),
-        dueTime: dueTime ? getTimeString(dueTime) : undefined,
-        isRecurring,
-        recurrencePattern: isRecurring ? recurrencePattern : undefined,
-        recurrenceInterval: recurrencePattern === 'custom' ? parseInt(customInterval, 10) : undefined,
-      };
+      const taskData = buildTaskData();
+      // A tag still being typed counts as added
+      const taskTags = [...tags, newTag];
 
       if (editTaskId) {
-        // Update existing task
-        await taskService.updateTask(editTaskId, taskData);
-        
-        // Get the updated task for notifications
-        if (dueTime) {
-          const updatedTask = await taskService.getTaskById(editTaskId);
-          if (updatedTask) {
-            notificationService.scheduleTaskNotification(updatedTask);
-          }
-        }
+        // Update existing task (and the series it belongs to, depending on scope)
+        const result = await taskService.updateTaskWithScope(editTaskId, taskData, scope, checklist, taskTags);
+        notificationService.rescheduleTaskNotifications(result);
       } else {
         // Create new task
-        const createdTask = await taskService.createTask(taskData);
+        const createdTask = await taskService.createTask(taskData, checklist, taskTags);
         
         if (dueTime) {
           notificationService.scheduleTaskNotification(createdTask);
@@ -183,6 +341,49 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
           />
         </View>
 
+        <View style={styles.inputGroup}>
+          <Text style={[styles.label, { color: theme.text }]}>Checklist</Text>
+          {checklist.map((item, index) => (
+            <View key={index} style={styles.checklistRow}>
+              <Icon name="check-box-outline-blank" size={20} color={theme.textSecondary} />
+              <TextInput
+                style={[styles.checklistInput, { borderColor: theme.inputBorder, color: theme.text }]}
+                value={item}
+                onChangeText={text => updateChecklistItem(index, text)}
+              />
+              <TouchableOpacity onPress={() => removeChecklistItem(index)}>
+                <Icon name="close" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.checklistRow}>
+            <Icon name="add" size={20} color={theme.primary} />
+            <TextInput
+              style={[styles.checklistInput, { borderColor: theme.inputBorder, color: theme.text }]}
+              value={newChecklistItem}
+              onChangeText={setNewChecklistItem}
+              onSubmitEditing={addChecklistItem}
+              onBlur={addChecklistItem}
+              placeholder="Add an item"
+              placeholderTextColor={theme.textLight}
+              returnKeyType="done"
+              blurOnSubmit={false}
+            />
+          </View>
+        </View>
+
+        {checklist.length > 0 && (
+          <View style={styles.switchGroup}>
+            <Text style={[styles.label, { color: theme.text }]}>Complete When All Checked</Text>
+            <Switch
+              value={autoCompleteChecklist}
+              onValueChange={setAutoCompleteChecklist}
+              trackColor={{ false: theme.border, true: theme.success + '80' }}
+              thumbColor={autoCompleteChecklist ? theme.success : theme.surface}
+            />
+          </View>
+        )}
+
         <View style={styles.inputGroup}>
           <Text style={[styles.label, { color: theme.text }]}>Type</Text>
           <View style={[styles.segmentedControl, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder }]}>
@@ -240,6 +441,82 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
           </View>
         </View>
 
+        {categories.length > 0 && (
+          <View style={styles.inputGroup}>
+            <Text style={[styles.label, { color: theme.text }]}>Category</Text>
+            <View style={styles.categoryOptions}>
+              {[undefined, ...categories].map(category => {
+                const selected = categoryId === category?.id;
+                const color = category ? category.color : theme.textSecondary;
+                return (
+                  <TouchableOpacity
+                    key={category?.id ?? 'none'}
+                    style={[
+                      styles.categoryOption,
+                      { borderColor: color },
+                      selected && { backgroundColor: color },
+                    ]}
+                    onPress={() => setCategoryId(category?.id)}
+                  >
+                    {category?.icon && (
+                      <Icon name={category.icon} size={16} color={selected ? theme.surface : color} />
+                    )}
+                    <Text style={[styles.categoryOptionText, { color: selected ? theme.surface : color }]}>
+                      {category ? category.name : 'None'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.inputGroup}>
+          <Text style={[styles.label, { color: theme.text }]}>Tags</Text>
+          {tags.length > 0 && (
+            <View style={styles.tagList}>
+              {tags.map(tag => (
+                <TouchableOpacity
+                  key={tag}
+                  style={[styles.tag, { backgroundColor: theme.primary + '20' }]}
+                  onPress={() => removeTag(tag)}
+                >
+                  <Text style={[styles.tagText, { color: theme.primary }]}>{tag}</Text>
+                  <Icon name="close" size={14} color={theme.primary} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <View style={styles.checklistRow}>
+            <Icon name="local-offer" size={20} color={theme.primary} />
+            <TextInput
+              style={[styles.checklistInput, { borderColor: theme.inputBorder, color: theme.text }]}
+              value={newTag}
+              onChangeText={setNewTag}
+              onSubmitEditing={() => addTag(newTag)}
+              placeholder="Add a tag, e.g. @errands"
+              placeholderTextColor={theme.textLight}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              blurOnSubmit={false}
+            />
+          </View>
+          {tagSuggestions.length > 0 && (
+            <View style={styles.tagList}>
+              {tagSuggestions.map(tag => (
+                <TouchableOpacity
+                  key={tag.id}
+                  style={[styles.tag, styles.tagSuggestion, { borderColor: theme.border }]}
+                  onPress={() => addTag(tag.name)}
+                >
+                  <Text style={[styles.tagText, { color: theme.textSecondary }]}>{tag.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
         <View style={styles.inputGroup}>
           <Text style={[styles.label, { color: theme.text }]}>Due Date</Text>
           <TouchableOpacity
@@ -274,6 +551,38 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
           </TouchableOpacity>
         </View>
 
+        {dueTime && (
+          <>
+            <View style={styles.switchGroup}>
+              <Text style={[styles.label, { color: theme.text }]}>Fixed Time Zone</Text>
+              <Switch
+                value={timeZone !== null}
+                onValueChange={fixed => setTimeZone(fixed ? getDeviceTimeZone() : null)}
+                trackColor={{ false: theme.border, true: theme.success + '80' }}
+                thumbColor={timeZone !== null ? theme.success : theme.surface}
+              />
+            </View>
+
+            {timeZone !== null ? (
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  value={timeZone}
+                  onChangeText={setTimeZone}
+                  placeholder="e.g. America/New_York"
+                  placeholderTextColor={theme.textLight}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+            ) : (
+              <Text style={[styles.recurrenceHint, { color: theme.textSecondary }]}>
+                Due at this time wherever you are
+              </Text>
+            )}
+          </>
+        )}
+
         <View style={styles.switchGroup}>
           <Text style={[styles.label, { color: theme.text }]}>Recurring Task</Text>
           <Switch
@@ -286,10 +595,36 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
 
         {isRecurring && (
           <>
+            <View style={styles.inputGroup}>
+              <Text style={[styles.label, { color: theme.text }]}>Repeat</Text>
+              <View style={[styles.segmentedControl, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder }]}>
+                {recurrenceModes.map((mode) => (
+                  <TouchableOpacity
+                    key={mode.value}
+                    style={[
+                      styles.segmentButton,
+                      recurrenceMode === mode.value && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => handleRecurrenceModeChange(mode.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentButtonText,
+                        { color: theme.textSecondary },
+                        recurrenceMode === mode.value && { color: theme.surface },
+                      ]}
+                    >
+                      {mode.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             <View style={styles.inputGroup}>
               <Text style={[styles.label, { color: theme.text }]}>Recurrence Pattern</Text>
               <View style={styles.recurrenceOptions}>
-                {recurrenceOptions.map((option) => (
+                {availableRecurrenceOptions.map((option) => (
                   <TouchableOpacity
                     key={option.value}
                     style={[
@@ -326,6 +661,79 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
                 />
               </View>
             )}
+
+            {recurrenceMode === 'completion' && (
+              <Text style={[styles.recurrenceHint, { color: theme.textSecondary }]}>
+                {formatRecurrenceText({
+                  recurrencePattern,
+                  recurrenceInterval: parseInt(customInterval, 10) || undefined,
+                  recurrenceMode,
+                })}
+              </Text>
+            )}
+
+            {recurrencePattern === 'rrule' && (
+              <View style={styles.inputGroup}>
+                <Text style={[styles.label, { color: theme.text }]}>Repeats</Text>
+                <RRuleBuilder rule={currentRRule} startDate={dueDate} onChange={setRRule} />
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={[styles.label, { color: theme.text }]}>Ends</Text>
+              <View style={[styles.segmentedControl, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder }]}>
+                {recurrenceEnds.map((end) => (
+                  <TouchableOpacity
+                    key={end.value}
+                    style={[
+                      styles.segmentButton,
+                      recurrenceEnd === end.value && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => setRecurrenceEnd(end.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentButtonText,
+                        { color: theme.textSecondary },
+                        recurrenceEnd === end.value && { color: theme.surface },
+                      ]}
+                    >
+                      {end.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {recurrenceEnd === 'date' && (
+              <View style={styles.inputGroup}>
+                <Text style={[styles.label, { color: theme.text }]}>Last Date</Text>
+                <TouchableOpacity
+                  style={[styles.dateButton, { backgroundColor: theme.inputBackground, borderColor: theme.primary }]}
+                  onPress={() => setShowUntilPicker(true)}
+                  activeOpacity={0.7}
+                >
+                  <Icon name="event-busy" size={20} color={theme.textSecondary} />
+                  <Text style={[styles.dateButtonText, { color: theme.text }]}>
+                    {untilDate ? untilDate.toLocaleDateString() : 'Select end date'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {recurrenceEnd === 'count' && (
+              <View style={styles.inputGroup}>
+                <Text style={[styles.label, { color: theme.text }]}>Number of Occurrences</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  value={occurrenceCount}
+                  onChangeText={setOccurrenceCount}
+                  placeholder="e.g. 10"
+                  placeholderTextColor={theme.textLight}
+                  keyboardType="numeric"
+                />
+              </View>
+            )}
           </>
         )}
       </View>
@@ -360,6 +768,25 @@ const CreateTaskScreen: React.FC<{ navigation: any; route?: any }> = ({ navigati
           setShowTimePicker(false);
         }}
       />
+
+      <DateTimePickerModal
+        isVisible={showUntilPicker}
+        mode="date"
+        minimumDate={dueDate}
+        date={untilDate || dueDate}
+        onConfirm={(selectedDate) => {
+          setShowUntilPicker(false);
+          setUntilDate(selectedDate);
+        }}
+        onCancel={() => setShowUntilPicker(false)}
+      />
+
+      <SeriesScopeModal
+        visible={showScopeModal}
+        action="edit"
+        onSelect={saveTask}
+        onCancel={() => setShowScopeModal(false)}
+      />
       </ScrollView>
     </SafeAreaView>
   );
@@ -408,6 +835,56 @@ const styles = StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  checklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  checklistInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 6,
+    marginHorizontal: 8,
+    borderBottomWidth: 1,
+  },
+  tagList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  tagSuggestion: {
+    borderWidth: 1,
+  },
+  tagText: {
+    fontSize: 14,
+  },
+  categoryOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  categoryOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  categoryOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   segmentedControl: {
     flexDirection: 'row',
     borderRadius: 8,
@@ -460,6 +937,11 @@ const styles = StyleSheet.create({
   recurrenceButtonText: {
     fontSize: 14,
   },
+  recurrenceHint: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginBottom: 20,
+  },
 });
 
 export default CreateTaskScreen;
\ No newline at end of file
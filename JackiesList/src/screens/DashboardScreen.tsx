@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,12 +10,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
+import Swipeable from 'react-native-gesture-handler/Swipeable';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { Task, DashboardMetrics } from '../types';
+import { Task, DashboardMetrics, SnoozeOption, ChecklistProgress, Category, Tag } from '../types';
 import taskService from '../services/taskService';
-import { formatTime, isPastDue } from '../utils/date';
+import notificationService from '../services/notificationService';
+import { formatDueTime, isPastDue, getDateString, getWallClock } from '../utils/date';
 import { testSQLiteConnection } from '../utils/databaseTest';
 import { useTheme } from '../contexts/ThemeContext';
+import SnoozeModal from '../components/SnoozeModal';
+import UndoToast from '../components/UndoToast';
+import CategoryChip from '../components/CategoryChip';
 
 type FilterType = 'all' | 'completed' | 'overdue' | 'pending';
 
@@ -24,7 +30,13 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [allTasks, setAllTasks] = useState<Task[]>([]);
   const [todayTasks, setTodayTasks] = useState<Task[]>([]);
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set());
+  const [checklistProgress, setChecklistProgress] = useState<Map<string, ChecklistProgress>>(new Map());
+  // Open blockers of the tasks that cannot be started yet
+  const [openBlockers, setOpenBlockers] = useState<Map<string, Task[]>>(new Map());
+  const [categories, setCategories] = useState<Map<string, Category>>(new Map());
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  const [taskTags, setTaskTags] = useState<Map<string, Tag[]>>(new Map());
+  const [activeTagId, setActiveTagId] = useState<string | null>(null);
   const [metrics, setMetrics] = useState<DashboardMetrics>({
     todayTasks: 0,
     completedToday: 0,
@@ -33,6 +45,13 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     currentStreak: 0,
   });
   const [refreshing, setRefreshing] = useState(false);
+  // The task whose swipe action opened the snooze menu or date picker
+  const [actionTask, setActionTask] = useState<Task | null>(null);
+  const [showSnoozeModal, setShowSnoozeModal] = useState(false);
+  const [showReschedulePicker, setShowReschedulePicker] = useState(false);
+  const swipeableRefs = useRef(new Map<string, Swipeable>());
+  // The task just completed, which the undo toast can reopen
+  const [undoTask, setUndoTask] = useState<Task | null>(null);
 
   const loadData = async () => {
     try {
@@ -53,17 +72,19 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       
       // Load completion status for today's tasks
       console.log('DashboardScreen: Loading completion status...');
-      const completedTaskIds = new Set<string>();
-      for (const task of tasks) {
-        const isCompleted = await taskService.isTaskCompletedToday(task.id);
-        if (isCompleted) {
-          completedTaskIds.add(task.id);
-        }
-      }
+      const completionState = await taskService.getCompletionState(tasks.map(task => task.id));
+      const progress = await taskService.getChecklistProgress(tasks.map(task => task.id));
+      const blockers = await taskService.getOpenBlockers(tasks.map(task => task.id));
+      const categoryList = await taskService.getCategories();
+      const tags = await taskService.getTaskTags(tasks.map(task => task.id));
       
       setAllTasks(tasks);
       setTodayTasks(tasks);
-      setCompletedTasks(completedTaskIds);
+      setCompletedTasks(new Set(completionState.keys()));
+      setChecklistProgress(progress);
+      setOpenBlockers(blockers);
+      setCategories(new Map(categoryList.map(category => [category.id, category])));
+      setTaskTags(tags);
       setMetrics(dashboardMetrics);
       console.log('DashboardScreen: Data loading completed successfully');
     } catch (error) {
@@ -96,8 +117,9 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     setRefreshing(false);
   };
 
-  const applyFilter = (filter: FilterType) => {
+  const applyFilter = (filter: FilterType, tagId: string | null = activeTagId) => {
     setActiveFilter(filter);
+    setActiveTagId(tagId);
     
     let filteredTasks = [...allTasks];
     
@@ -107,12 +129,12 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         break;
       case 'overdue':
         filteredTasks = allTasks.filter(task => 
-          !completedTasks.has(task.id) && isPastDue(task.dueDate, task.dueTime)
+          !completedTasks.has(task.id) && !task.skippedAt && isPastDue(task.dueDate, task.dueTime, task.timeZone)
         );
         break;
       case 'pending':
         filteredTasks = allTasks.filter(task => 
-          !completedTasks.has(task.id) && !isPastDue(task.dueDate, task.dueTime)
+          !completedTasks.has(task.id) && !task.skippedAt && !isPastDue(task.dueDate, task.dueTime, task.timeZone)
         );
         break;
       case 'all':
@@ -120,16 +142,24 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         filteredTasks = allTasks;
         break;
     }
+
+    if (tagId) {
+      filteredTasks = filteredTasks.filter(task => taskTags.get(task.id)?.some(tag => tag.id === tagId));
+    }
     
     setTodayTasks(filteredTasks);
   };
 
   const handleCompleteTask = async (task: Task) => {
     try {
-      await taskService.completeTask(task.id);
+      const nextTask = await taskService.completeTask(task.id);
+      if (nextTask?.dueTime) {
+        notificationService.scheduleTaskNotification(nextTask);
+      }
       
       // Update local state immediately for better UX
       setCompletedTasks(prev => new Set([...prev, task.id]));
+      setUndoTask(task);
       
       // Reload data to get updated metrics
       await loadData();
@@ -141,13 +171,106 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       const errorMessage = error instanceof Error ? error.message : 'Failed to complete task';
       
       if (errorMessage.includes('already completed')) {
-        Alert.alert('Already Completed', 'This task has already been completed today.');
+        Alert.alert('Already Completed', 'This task has already been completed.');
       } else {
         Alert.alert('Error', errorMessage);
       }
     }
   };
 
+  const confirmCompleteBlockedTask = (task: Task) => {
+    const blockers = openBlockers.get(task.id) ?? [];
+    Alert.alert(
+      'Task Is Blocked',
+      `Waiting on ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}. Complete it anyway?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Complete', onPress: () => handleCompleteTask(task) },
+      ]
+    );
+  };
+
+  const handleUndoComplete = async () => {
+    if (!undoTask) return;
+    const task = undoTask;
+    setUndoTask(null);
+
+    try {
+      const removedTaskId = await taskService.uncompleteTask(task.id);
+      if (removedTaskId) {
+        notificationService.cancelTaskNotification(removedTaskId);
+      }
+      await refreshAfterTaskAction();
+    } catch (error) {
+      console.error('Error reopening task:', error);
+      Alert.alert('Error', 'Failed to reopen task');
+    }
+  };
+
+  const closeSwipeable = (taskId: string) => {
+    swipeableRefs.current.get(taskId)?.close();
+  };
+
+  const refreshAfterTaskAction = async () => {
+    await loadData();
+    setTimeout(() => applyFilter(activeFilter), 100);
+  };
+
+  const handleSkipTask = async (task: Task) => {
+    closeSwipeable(task.id);
+    try {
+      await taskService.skipTask(task.id);
+      notificationService.cancelTaskNotification(task.id);
+      await refreshAfterTaskAction();
+    } catch (error) {
+      console.error('Error skipping task:', error);
+      Alert.alert('Error', 'Failed to skip task');
+    }
+  };
+
+  const openSnoozeModal = (task: Task) => {
+    closeSwipeable(task.id);
+    setActionTask(task);
+    setShowSnoozeModal(true);
+  };
+
+  const openReschedulePicker = (task: Task) => {
+    closeSwipeable(task.id);
+    setActionTask(task);
+    setShowReschedulePicker(true);
+  };
+
+  const applyNewDueDate = async (move: () => Promise<Task>) => {
+    try {
+      const movedTask = await move();
+      notificationService.rescheduleTaskNotifications({ updatedTasks: [movedTask], removedTaskIds: [] });
+      await refreshAfterTaskAction();
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      Alert.alert('Error', 'Failed to reschedule task');
+    } finally {
+      setActionTask(null);
+    }
+  };
+
+  const handleSnoozeTask = (option: SnoozeOption) => {
+    setShowSnoozeModal(false);
+    if (!actionTask) return;
+    const taskId = actionTask.id;
+    applyNewDueDate(() => taskService.snoozeTask(taskId, option));
+  };
+
+  const handleRescheduleTask = (date: Date) => {
+    setShowReschedulePicker(false);
+    if (!actionTask) return;
+    const { id, timeZone } = actionTask;
+    // The picker shows this device's clock; a fixed-zone task keeps its own
+    const dueTime = actionTask.dueTime ? getWallClock(date, timeZone) : null;
+    applyNewDueDate(() =>
+      taskService.rescheduleTask(id, dueTime ? dueTime.date : getDateString(date), dueTime?.time)
+    );
+  };
+
   const getTaskIcon = (type: Task['type']) => {
     switch (type) {
       case 'appointment':
@@ -174,18 +297,68 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     }
   };
 
+  const renderSwipeActions = (task: Task) => (
+    <View style={styles.swipeActions}>
+      {!task.skippedAt && (
+        <TouchableOpacity
+          style={[styles.swipeAction, { backgroundColor: theme.textSecondary }]}
+          onPress={() => handleSkipTask(task)}
+        >
+          <Icon name="skip-next" size={22} color={theme.surface} />
+          <Text style={[styles.swipeActionText, { color: theme.surface }]}>Skip</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.swipeAction, { backgroundColor: theme.warning }]}
+        onPress={() => openSnoozeModal(task)}
+      >
+        <Icon name="snooze" size={22} color={theme.surface} />
+        <Text style={[styles.swipeActionText, { color: theme.surface }]}>Snooze</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.swipeAction, { backgroundColor: theme.primary }]}
+        onPress={() => openReschedulePicker(task)}
+      >
+        <Icon name="event" size={22} color={theme.surface} />
+        <Text style={[styles.swipeActionText, { color: theme.surface }]}>Move</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // The tags of today's tasks, offered as filters
+  const todayTagList = [...new Map([...taskTags.values()].flat().map(tag => [tag.id, tag])).values()].sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+
   const renderTask = (task: Task) => {
-    const isOverdue = isPastDue(task.dueDate, task.dueTime);
+    const isSkipped = !!task.skippedAt;
+    const isOverdue = !isSkipped && isPastDue(task.dueDate, task.dueTime, task.timeZone);
     const isCompleted = completedTasks.has(task.id);
+    const progress = checklistProgress.get(task.id);
+    const blockers = isCompleted ? undefined : openBlockers.get(task.id);
+    const category = task.categoryId ? categories.get(task.categoryId) : undefined;
     
     return (
-      <TouchableOpacity
+      <Swipeable
         key={task.id}
+        ref={ref => {
+          if (ref) {
+            swipeableRefs.current.set(task.id, ref);
+          } else {
+            swipeableRefs.current.delete(task.id);
+          }
+        }}
+        enabled={!isCompleted}
+        renderRightActions={() => renderSwipeActions(task)}
+      >
+      <TouchableOpacity
         style={[
           styles.taskItem, 
           { backgroundColor: theme.cardBackground },
           isOverdue && { backgroundColor: theme.error + '20' },
-          isCompleted && { backgroundColor: theme.success + '20', opacity: 0.7 }
+          isCompleted && { backgroundColor: theme.success + '20', opacity: 0.7 },
+          isSkipped && styles.skippedTask,
+          blockers && styles.blockedTask
         ]}
         onPress={() => navigation.navigate('TaskDetail', { taskId: task.id })}
       >
@@ -199,19 +372,41 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
             <Text style={[
               styles.taskTitle, 
               { color: theme.text },
-              isOverdue && { color: theme.error }
+              isOverdue && { color: theme.error },
+              isSkipped && styles.skippedTitle
             ]}>
               {task.title}
             </Text>
-            {task.dueTime && (
-              <Text style={[styles.taskTime, { color: theme.textSecondary }]}>{formatTime(task.dueTime)}</Text>
+            {category && <CategoryChip category={category} />}
+            {isSkipped ? (
+              <Text style={[styles.taskTime, { color: theme.textSecondary }]}>Skipped</Text>
+            ) : task.dueTime && (
+              <Text style={[styles.taskTime, { color: theme.textSecondary }]}>{formatDueTime(task.dueDate, task.dueTime, task.timeZone)}</Text>
+            )}
+            {blockers && (
+              <View style={styles.checklistProgress}>
+                <Icon name="lock" size={14} color={theme.textSecondary} />
+                <Text style={[styles.checklistProgressText, { color: theme.textSecondary }]} numberOfLines={1}>
+                  Blocked by {blockers.map(blocker => blocker.title).join(', ')}
+                </Text>
+              </View>
+            )}
+            {progress && (
+              <View style={styles.checklistProgress}>
+                <Icon name="checklist" size={14} color={theme.textSecondary} />
+                <Text style={[styles.checklistProgressText, { color: theme.textSecondary }]}>
+                  {progress.done}/{progress.total}
+                </Text>
+              </View>
             )}
           </View>
         </View>
         <TouchableOpacity
           onPress={(e) => {
             e.stopPropagation();
-            if (!isCompleted) {
+            if (blockers) {
+              confirmCompleteBlockedTask(task);
+            } else if (!isCompleted) {
               handleCompleteTask(task);
             }
           }}
@@ -228,6 +423,7 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           />
         </TouchableOpacity>
       </TouchableOpacity>
+      </Swipeable>
     );
   };
 
@@ -241,12 +437,20 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       >
       <View style={[styles.header, { backgroundColor: theme.primary }]}>
         <Text style={[styles.title, { color: theme.surface }]}>Jackie's List</Text>
-        <TouchableOpacity
-          onPress={() => navigation.navigate('CreateTask')}
-          style={styles.addButton}
-        >
-          <Icon name="add" size={28} color={theme.surface} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Search')}
+            style={styles.addButton}
+          >
+            <Icon name="search" size={26} color={theme.surface} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('CreateTask')}
+            style={styles.addButton}
+          >
+            <Icon name="add" size={28} color={theme.surface} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.metricsContainer}>
@@ -296,12 +500,39 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           onPress={() => applyFilter('pending')}
         >
           <Text style={[styles.metricValue, { color: theme.primary }]}>
-            {allTasks.length - completedTasks.size - metrics.overdueTasks}
+            {allTasks.length - completedTasks.size - metrics.overdueTasks -
+              allTasks.filter(task => task.skippedAt && !completedTasks.has(task.id)).length}
           </Text>
           <Text style={[styles.metricLabel, { color: theme.textSecondary }]}>ToDo</Text>
         </TouchableOpacity>
       </View>
 
+      {todayTagList.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.tagFilters}
+          contentContainerStyle={styles.tagFiltersContent}
+        >
+          {todayTagList.map(tag => (
+            <TouchableOpacity
+              key={tag.id}
+              style={[
+                styles.tagFilter,
+                { backgroundColor: theme.cardBackground, borderColor: theme.border },
+                activeTagId === tag.id && { backgroundColor: theme.primary + '20', borderColor: theme.primary }
+              ]}
+              onPress={() => applyFilter(activeFilter, activeTagId === tag.id ? null : tag.id)}
+            >
+              <Icon name="local-offer" size={14} color={activeTagId === tag.id ? theme.primary : theme.textSecondary} />
+              <Text style={[styles.tagFilterText, { color: activeTagId === tag.id ? theme.primary : theme.textSecondary }]}>
+                {tag.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       <View style={[styles.completionRate, { backgroundColor: theme.cardBackground }]}>
         <Text style={[styles.completionRateLabel, { color: theme.text }]}>Today's Completion</Text>
         <View style={[styles.progressBar, { backgroundColor: theme.border }]}>
@@ -336,6 +567,36 @@ const DashboardScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         )}
       </View>
       </ScrollView>
+
+      <SnoozeModal
+        visible={showSnoozeModal}
+        onSelect={handleSnoozeTask}
+        onReschedule={() => {
+          setShowSnoozeModal(false);
+          setShowReschedulePicker(true);
+        }}
+        onCancel={() => {
+          setShowSnoozeModal(false);
+          setActionTask(null);
+        }}
+      />
+
+      <DateTimePickerModal
+        isVisible={showReschedulePicker}
+        mode={actionTask?.dueTime ? 'datetime' : 'date'}
+        onConfirm={handleRescheduleTask}
+        onCancel={() => {
+          setShowReschedulePicker(false);
+          setActionTask(null);
+        }}
+      />
+
+      <UndoToast
+        visible={!!undoTask}
+        message={undoTask ? `Completed "${undoTask.title}"` : ''}
+        onUndo={handleUndoComplete}
+        onDismiss={() => setUndoTask(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -357,6 +618,10 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   addButton: {
     width: 48,
     height: 48,
@@ -396,6 +661,27 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     minHeight: 16,
   },
+  tagFilters: {
+    marginTop: -10,
+    marginBottom: 10,
+  },
+  tagFiltersContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  tagFilter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  tagFilterText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   completionRate: {
     marginHorizontal: 20,
     marginBottom: 20,
@@ -463,6 +749,40 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 2,
   },
+  checklistProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  checklistProgressText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  skippedTask: {
+    opacity: 0.5,
+  },
+  blockedTask: {
+    opacity: 0.5,
+  },
+  skippedTitle: {
+    textDecorationLine: 'line-through',
+  },
+  swipeActions: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  swipeAction: {
+    width: 72,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 10,
+    marginLeft: 6,
+  },
+  swipeActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   completeButton: {
     padding: 5,
   },
@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  FlatList,
+  StyleProp,
+  TextStyle,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { Category, Priority, SearchFilters, SearchResult, TaskType } from '../types';
+import taskService from '../services/taskService';
+import { formatDate, getDateString } from '../utils/date';
+import { getSearchTerms, splitHighlights } from '../utils/search';
+import { useTheme } from '../contexts/ThemeContext';
+import CategoryChip from '../components/CategoryChip';
+
+const taskTypes: { value: TaskType; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'chore', label: 'Chore' },
+  { value: 'appointment', label: 'Appt' },
+];
+
+const priorities: { value: Priority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  style: StyleProp<TextStyle>;
+  highlightColor: string;
+  numberOfLines?: number;
+}
+
+// Text with the words a search matched in bold on a tinted background
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  terms,
+  style,
+  highlightColor,
+  numberOfLines,
+}) => (
+  <Text style={style} numberOfLines={numberOfLines}>
+    {splitHighlights(text, terms).map((segment, index) =>
+      segment.match ? (
+        <Text key={index} style={[styles.highlight, { backgroundColor: highlightColor }]}>
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      )
+    )}
+  </Text>
+);
+
+const SearchScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Which end of the date range the picker is choosing
+  const [datePickerFor, setDatePickerFor] = useState<'fromDate' | 'toDate' | null>(null);
+
+  useEffect(() => {
+    taskService.getCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading categories:', error));
+  }, []);
+
+  useEffect(() => {
+    // Wait for a pause in typing before searching
+    const timeout = setTimeout(() => {
+      taskService.searchTasks(query, filters)
+        .then(setResults)
+        .catch(error => console.error('Error searching tasks:', error));
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [query, filters]);
+
+  const terms = getSearchTerms(query);
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+  const toggleFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? undefined : value }));
+  };
+
+  const renderOption = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.option,
+        { borderColor: theme.border },
+        selected && { backgroundColor: theme.primary + '20', borderColor: theme.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, { color: selected ? theme.primary : theme.textSecondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    const { task, notes } = item;
+    const category = categories.find(current => current.id === task.categoryId);
+
+    return (
+      <TouchableOpacity
+        style={[styles.result, { backgroundColor: theme.cardBackground }]}
+        onPress={() => navigation.navigate('TaskDetail', { taskId: task.id })}
+      >
+        <View style={styles.resultHeader}>
+          <HighlightedText
+            text={task.title}
+            terms={terms}
+            style={[styles.resultTitle, { color: theme.text }]}
+            highlightColor={theme.warning + '40'}
+          />
+          <Text style={[styles.resultDate, { color: theme.textSecondary }]}>{formatDate(task.dueDate)}</Text>
+        </View>
+        {category && <CategoryChip category={category} />}
+        {!!task.description && (
+          <HighlightedText
+            text={task.description}
+            terms={terms}
+            style={[styles.resultText, { color: theme.textSecondary }]}
+            highlightColor={theme.warning + '40'}
+            numberOfLines={2}
+          />
+        )}
+        {notes.map((note, index) => (
+          <View key={index} style={styles.resultNote}>
+            <Icon name="notes" size={14} color={theme.textSecondary} />
+            <HighlightedText
+              text={note}
+              terms={terms}
+              style={[styles.resultText, styles.resultNoteText, { color: theme.textSecondary }]}
+              highlightColor={theme.warning + '40'}
+              numberOfLines={2}
+            />
+          </View>
+        ))}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: theme.headerBackground, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <TextInput
+          style={[styles.searchInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search tasks and notes"
+          placeholderTextColor={theme.textLight}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        <TouchableOpacity onPress={() => setShowFilters(!showFilters)}>
+          <Icon name="filter-list" size={24} color={activeFilterCount > 0 ? theme.primary : theme.text} />
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && (
+        <ScrollView style={[styles.filters, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <Text style={[styles.filterLabel, { color: theme.text }]}>Type</Text>
+          <View style={styles.options}>
+            {taskTypes.map(option =>
+              renderOption(option.label, filters.type === option.value, () => toggleFilter('type', option.value), option.value)
+            )}
+          </View>
+
+          <Text style={[styles.filterLabel, { color: theme.text }]}>Priority</Text>
+          <View style={styles.options}>
+            {priorities.map(option =>
+              renderOption(
+                option.label,
+                filters.priority === option.value,
+                () => toggleFilter('priority', option.value),
+                option.value
+              )
+            )}
+          </View>
+
+          {categories.length > 0 && (
+            <>
+              <Text style={[styles.filterLabel, { color: theme.text }]}>Category</Text>
+              <View style={styles.options}>
+                {categories.map(category =>
+                  renderOption(
+                    category.name,
+                    filters.categoryId === category.id,
+                    () => toggleFilter('categoryId', category.id),
+                    category.id
+                  )
+                )}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.filterLabel, { color: theme.text }]}>Due Between</Text>
+          <View style={styles.options}>
+            {renderOption(
+              filters.fromDate ? formatDate(filters.fromDate) : 'Any start',
+              !!filters.fromDate,
+              () => setDatePickerFor('fromDate'),
+              'fromDate'
+            )}
+            {renderOption(
+              filters.toDate ? formatDate(filters.toDate) : 'Any end',
+              !!filters.toDate,
+              () => setDatePickerFor('toDate'),
+              'toDate'
+            )}
+            {activeFilterCount > 0 && (
+              <TouchableOpacity style={styles.clearButton} onPress={() => setFilters({})}>
+                <Text style={[styles.optionText, { color: theme.error }]}>Clear filters</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <FlatList
+        data={results}
+        keyExtractor={result => result.task.id}
+        renderItem={renderResult}
+        contentContainerStyle={styles.results}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            {terms.length > 0 ? 'No matching tasks' : 'Type to search titles, descriptions and completion notes'}
+          </Text>
+        }
+      />
+
+      <DateTimePickerModal
+        isVisible={datePickerFor !== null}
+        mode="date"
+        date={
+          datePickerFor && filters[datePickerFor]
+            ? new Date(filters[datePickerFor] + 'T12:00:00')
+            : new Date()
+        }
+        onConfirm={date => {
+          if (datePickerFor) {
+            setFilters(prev => ({ ...prev, [datePickerFor]: getDateString(date) }));
+          }
+          setDatePickerFor(null);
+        }}
+        onCancel={() => {
+          // Cancelling a set date clears it
+          if (datePickerFor) {
+            setFilters(prev => ({ ...prev, [datePickerFor]: undefined }));
+          }
+          setDatePickerFor(null);
+        }}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 12,
+    borderBottomWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  filters: {
+    maxHeight: 320,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  clearButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  results: {
+    padding: 20,
+  },
+  result: {
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 10,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  resultDate: {
+    fontSize: 13,
+  },
+  resultText: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  resultNote: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 4,
+  },
+  resultNoteText: {
+    flex: 1,
+    marginTop: 0,
+    marginLeft: 4,
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    padding: 40,
+  },
+});
+
+export default SearchScreen;
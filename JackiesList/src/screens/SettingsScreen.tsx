@@ -13,8 +13,9 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { getSettings, updateSettings, UserSettings } from '../services/settingsService';
 import { useTheme } from '../contexts/ThemeContext';
 import database from '../services/database';
+import horizonManager from '../services/horizonManager';
 
-const SettingsScreen = () => {
+const SettingsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const { theme, themeMode, setThemeMode } = useTheme();
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [recurringDays, setRecurringDays] = useState('30');
@@ -47,6 +48,8 @@ const SettingsScreen = () => {
     try {
       await updateSettings({ recurringTaskGenerationDays: days });
       setSettings(prev => prev ? { ...prev, recurringTaskGenerationDays: days } : null);
+      // A longer window takes effect right away
+      await horizonManager.extendAllSeries();
       Alert.alert('Success', 'Settings saved successfully');
     } catch (error) {
       Alert.alert('Error', 'Failed to save settings');
@@ -176,6 +179,21 @@ const SettingsScreen = () => {
           </TouchableOpacity>
         </View>
 
+        <View style={[styles.section, { backgroundColor: theme.surface }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Organize</Text>
+
+          <TouchableOpacity style={styles.linkItem} onPress={() => navigation.navigate('Categories')}>
+            <Icon name="label-outline" size={24} color={theme.textSecondary} />
+            <View style={styles.linkContent}>
+              <Text style={[styles.settingLabel, { color: theme.text }]}>Categories</Text>
+              <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                Rename, recolor and reorder your categories
+              </Text>
+            </View>
+            <Icon name="chevron-right" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
         <View style={[styles.section, { backgroundColor: theme.surface }]}>
           <Text style={[styles.sectionTitle, { color: theme.text }]}>Data Management</Text>
           
@@ -278,6 +296,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  linkItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  linkContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
   aboutItem: {
     flexDirection: 'row',
     alignItems: 'center',
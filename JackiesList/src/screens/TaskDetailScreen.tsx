@@ -6,17 +6,36 @@ import {
   TouchableOpacity,
   Alert,
   ScrollView,
+  Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import { Task, TaskCompletion } from '../types';
+import {
+  Task,
+  TaskCompletion,
+  CompletionDetails,
+  CompletionSummary,
+  TaskSeries,
+  SeriesEditScope,
+  SnoozeOption,
+  OccurrencePosition,
+  Subtask,
+} from '../types';
 import taskService from '../services/taskService';
-import { formatTime, formatDate, isPastDue } from '../utils/date';
+import notificationService from '../services/notificationService';
+import { formatDueTime, formatDate, isPastDue, getDateString, getWallClock, parseLocalDate } from '../utils/date';
 import { formatRecurrenceText } from '../utils/recurrence';
 import { useTheme } from '../contexts/ThemeContext';
+import SeriesScopeModal from '../components/SeriesScopeModal';
+import SnoozeModal from '../components/SnoozeModal';
+import CompletionSheet from '../components/CompletionSheet';
+import TaskPickerModal from '../components/TaskPickerModal';
 import { type TaskCompletionAnalytics } from '../utils/completionAnalytics';
 
+const formatValue = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
 interface TaskDetailScreenProps {
   navigation: any;
   route: {
@@ -29,8 +48,22 @@ interface TaskDetailScreenProps {
 const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }) => {
   const { theme } = useTheme();
   const [task, setTask] = useState<Task | null>(null);
+  const [series, setSeries] = useState<TaskSeries | null>(null);
+  const [occurrencePosition, setOccurrencePosition] = useState<OccurrencePosition | null>(null);
   const [loading, setLoading] = useState(true);
   const [isCompleted, setIsCompleted] = useState(false);
+  const [showScopeModal, setShowScopeModal] = useState(false);
+  const [showSnoozeModal, setShowSnoozeModal] = useState(false);
+  const [showReschedulePicker, setShowReschedulePicker] = useState(false);
+  const [showCompletionSheet, setShowCompletionSheet] = useState(false);
+  const [editingCompletion, setEditingCompletion] = useState<TaskCompletion | null>(null);
+  const [seriesSummary, setSeriesSummary] = useState<CompletionSummary | null>(null);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [blockers, setBlockers] = useState<Task[]>([]);
+  const [dependents, setDependents] = useState<Task[]>([]);
+  // Completed tasks among the blockers and dependents
+  const [completedRelatedIds, setCompletedRelatedIds] = useState<Set<string>>(new Set());
+  const [blockerCandidates, setBlockerCandidates] = useState<Task[] | null>(null);
   const [completionHistory, setCompletionHistory] = useState<{
     completions: TaskCompletion[];
     analytics: TaskCompletionAnalytics[];
@@ -48,8 +81,24 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
       setTask(taskData);
       
       if (taskData) {
-        const completionStatus = await taskService.isTaskCompletedToday(taskData.id);
-        setIsCompleted(completionStatus);
+        setSeries(taskData.seriesId ? await taskService.getSeries(taskData.seriesId) : null);
+        setSeriesSummary(
+          taskData.seriesId ? await taskService.getSeriesCompletionSummary(taskData.seriesId) : null
+        );
+        setOccurrencePosition(await taskService.getOccurrencePosition(taskData));
+        setSubtasks(await taskService.getSubtasks(taskData.id));
+
+        const taskBlockers = await taskService.getBlockers(taskData.id);
+        const taskDependents = await taskService.getDependents(taskData.id);
+        const relatedState = await taskService.getCompletionState(
+          [...taskBlockers, ...taskDependents].map(related => related.id)
+        );
+        setBlockers(taskBlockers);
+        setDependents(taskDependents);
+        setCompletedRelatedIds(new Set(relatedState.keys()));
+
+        const completionState = await taskService.getCompletionState([taskData.id]);
+        setIsCompleted(completionState.has(taskData.id));
         
         // Load completion history
         const history = await taskService.getTaskCompletionHistory(taskData.id);
@@ -69,11 +118,19 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
     }
   };
 
-  const handleCompleteTask = async () => {
+  const handleCompleteTask = async (details: CompletionDetails) => {
+    setShowCompletionSheet(false);
     if (!task) return;
 
     try {
-      await taskService.completeTask(task.id);
+      const nextTask = await taskService.completeTask(task.id, {
+        notes: details.notes,
+        value: details.value,
+        photoPath: details.photoPath,
+      });
+      if (nextTask?.dueTime) {
+        notificationService.scheduleTaskNotification(nextTask);
+      }
       setIsCompleted(true);
       
       // Reload completion history
@@ -86,6 +143,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
       }
       
       Alert.alert('Success', 'Task completed!', [
+        { text: 'Undo', style: 'cancel', onPress: reopenTask },
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
     } catch (error) {
@@ -93,7 +151,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
       const errorMessage = error instanceof Error ? error.message : 'Failed to complete task';
       
       if (errorMessage.includes('already completed')) {
-        Alert.alert('Already Completed', 'This task has already been completed today.');
+        Alert.alert('Already Completed', 'This task has already been completed.');
         setIsCompleted(true);
       } else {
         Alert.alert('Error', errorMessage);
@@ -101,14 +159,222 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
     }
   };
 
+  const handleToggleSubtask = async (subtask: Subtask) => {
+    try {
+      const result = await taskService.setSubtaskChecked(subtask.id, !subtask.completedAt);
+      setSubtasks(current => current.map(item => (item.id === subtask.id ? result.subtask : item)));
+
+      if (result.autoCompleted) {
+        if (result.nextTask?.dueTime) {
+          notificationService.scheduleTaskNotification(result.nextTask);
+        }
+        await loadTask();
+        Alert.alert('Success', 'Every item is checked, so the task is completed!', [
+          { text: 'Undo', style: 'cancel', onPress: reopenTask },
+          { text: 'OK' },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error updating checklist:', error);
+      Alert.alert('Error', 'Failed to update checklist');
+    }
+  };
+
+  const handleAddBlocker = async () => {
+    if (!task) return;
+
+    try {
+      // Only tasks that still have to be done can hold this one up
+      const tasks = (await taskService.getTasks()).filter(
+        candidate =>
+          candidate.id !== task.id &&
+          !candidate.skippedAt &&
+          !blockers.some(blocker => blocker.id === candidate.id)
+      );
+      const completionState = await taskService.getCompletionState(tasks.map(candidate => candidate.id));
+      setBlockerCandidates(tasks.filter(candidate => !completionState.has(candidate.id)));
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+      Alert.alert('Error', 'Failed to load tasks');
+    }
+  };
+
+  const handleSelectBlocker = async (blocker: Task) => {
+    setBlockerCandidates(null);
+    if (!task) return;
+
+    try {
+      await taskService.addBlocker(task.id, blocker.id);
+      await loadTask();
+    } catch (error) {
+      console.error('Error adding blocker:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add blocker');
+    }
+  };
+
+  const handleRemoveBlocker = async (blocker: Task) => {
+    if (!task) return;
+
+    try {
+      await taskService.removeBlocker(task.id, blocker.id);
+      await loadTask();
+    } catch (error) {
+      console.error('Error removing blocker:', error);
+      Alert.alert('Error', 'Failed to remove blocker');
+    }
+  };
+
+  const reopenTask = async () => {
+    if (!task) return;
+
+    try {
+      const removedTaskId = await taskService.uncompleteTask(task.id);
+      if (removedTaskId) {
+        notificationService.cancelTaskNotification(removedTaskId);
+      }
+      await loadTask();
+    } catch (error) {
+      console.error('Error reopening task:', error);
+      Alert.alert('Error', 'Failed to reopen task');
+    }
+  };
+
+  const handleReopenTask = () => {
+    Alert.alert('Reopen Task', 'This removes the completion and its notes.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reopen', style: 'destructive', onPress: reopenTask },
+    ]);
+  };
+
+  const handleSaveCompletion = async (updates: CompletionDetails & { completedAt?: string }) => {
+    if (!editingCompletion) return;
+    const completionId = editingCompletion.id;
+    setEditingCompletion(null);
+
+    try {
+      await taskService.updateCompletion(completionId, updates);
+      await loadTask();
+    } catch (error) {
+      console.error('Error updating completion:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update completion');
+    }
+  };
+
+  const handleSkipTask = async () => {
+    if (!task) return;
+
+    try {
+      const skippedTask = await taskService.skipTask(task.id);
+      notificationService.cancelTaskNotification(task.id);
+      setTask(skippedTask);
+    } catch (error) {
+      console.error('Error skipping task:', error);
+      Alert.alert('Error', 'Failed to skip task');
+    }
+  };
+
+  const handleUnskipTask = async () => {
+    if (!task) return;
+
+    try {
+      const restoredTask = await taskService.unskipTask(task.id);
+      if (restoredTask.dueTime) {
+        notificationService.scheduleTaskNotification(restoredTask);
+      }
+      setTask(restoredTask);
+    } catch (error) {
+      console.error('Error restoring task:', error);
+      Alert.alert('Error', 'Failed to restore task');
+    }
+  };
+
+  const applyNewDueDate = async (move: () => Promise<Task>) => {
+    try {
+      const movedTask = await move();
+      notificationService.rescheduleTaskNotifications({ updatedTasks: [movedTask], removedTaskIds: [] });
+      setTask(movedTask);
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      Alert.alert('Error', 'Failed to reschedule task');
+    }
+  };
+
+  const handleSnoozeTask = (option: SnoozeOption) => {
+    if (!task) return;
+    setShowSnoozeModal(false);
+    applyNewDueDate(() => taskService.snoozeTask(task.id, option));
+  };
+
+  const handleRescheduleTask = (date: Date) => {
+    if (!task) return;
+    setShowReschedulePicker(false);
+    // The picker shows this device's clock; a fixed-zone task keeps its own
+    const dueTime = task.dueTime ? getWallClock(date, task.timeZone) : null;
+    applyNewDueDate(() =>
+      taskService.rescheduleTask(
+        task.id,
+        dueTime ? dueTime.date : getDateString(date),
+        dueTime?.time
+      )
+    );
+  };
+
+  const getRescheduleStartDate = () => {
+    if (!task) return new Date();
+    return task.dueTime
+      ? parseLocalDate(task.dueDate, task.dueTime, task.timeZone)
+      : parseLocalDate(task.dueDate, '09:00');
+  };
+
   const handleEditTask = () => {
     if (!task) return;
     navigation.navigate('CreateTask', { editTaskId: task.id });
   };
 
+  const deleteTask = async (scope: SeriesEditScope) => {
+    if (!task) return;
+    setShowScopeModal(false);
+
+    try {
+      const result = await taskService.deleteTaskWithScope(task.id, scope);
+      notificationService.rescheduleTaskNotifications(result);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      Alert.alert('Error', 'Failed to delete task');
+    }
+  };
+
   const handleDeleteTask = () => {
+    const waiting = dependents.filter(
+      dependent => !completedRelatedIds.has(dependent.id) && !dependent.skippedAt
+    );
+    if (waiting.length === 0) {
+      confirmDeleteTask();
+      return;
+    }
+
+    Alert.alert(
+      'Other Tasks Wait on This',
+      `${waiting.map(dependent => `"${dependent.title}"`).join(', ')} ${
+        waiting.length === 1 ? 'is' : 'are'
+      } blocked by this task. Deleting it unblocks them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', style: 'destructive', onPress: confirmDeleteTask },
+      ]
+    );
+  };
+
+  const confirmDeleteTask = () => {
     if (!task) return;
 
+    if (task.seriesId) {
+      // Ask which occurrences of the series to delete
+      setShowScopeModal(true);
+      return;
+    }
+
     Alert.alert(
       'Delete Task',
       'Are you sure you want to delete this task?',
@@ -117,15 +383,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await taskService.deleteTask(task.id);
-              navigation.goBack();
-            } catch (error) {
-              console.error('Error deleting task:', error);
-              Alert.alert('Error', 'Failed to delete task');
-            }
-          },
+          onPress: () => deleteTask('occurrence'),
         },
       ]
     );
@@ -191,7 +449,8 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
     );
   }
 
-  const isOverdue = isPastDue(task.dueDate, task.dueTime);
+  const isSkipped = !!task.skippedAt;
+  const isOverdue = !isSkipped && isPastDue(task.dueDate, task.dueTime, task.timeZone);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
@@ -234,6 +493,41 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
             </View>
           )}
 
+          {subtasks.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                Checklist ({subtasks.filter(item => item.completedAt).length}/{subtasks.length})
+              </Text>
+              {subtasks.map(item => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={styles.subtaskRow}
+                  onPress={() => handleToggleSubtask(item)}
+                >
+                  <Icon
+                    name={item.completedAt ? 'check-box' : 'check-box-outline-blank'}
+                    size={22}
+                    color={item.completedAt ? theme.success : theme.textSecondary}
+                  />
+                  <Text
+                    style={[
+                      styles.subtaskTitle,
+                      { color: item.completedAt ? theme.textSecondary : theme.text },
+                      !!item.completedAt && styles.subtaskChecked,
+                    ]}
+                  >
+                    {item.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {task.autoCompleteChecklist && !isCompleted && (
+                <Text style={[styles.occurrenceText, { color: theme.textSecondary }]}>
+                  Completes once every item is checked
+                </Text>
+              )}
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: theme.text }]}>Due Date</Text>
             <Text style={[
@@ -242,8 +536,15 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
               isOverdue && { color: theme.error }
             ]}>
               {formatDate(task.dueDate)}
-              {task.dueTime && ` at ${formatTime(task.dueTime)}`}
+              {task.dueTime && ` at ${formatDueTime(task.dueDate, task.dueTime, task.timeZone)}`}
             </Text>
+            {task.originalDueDate && (
+              <Text style={[styles.originalDueText, { color: theme.textSecondary }]}>
+                Originally due {formatDate(task.originalDueDate)}
+                {task.originalDueTime &&
+                  ` at ${formatDueTime(task.originalDueDate, task.originalDueTime, task.timeZone)}`}
+              </Text>
+            )}
           </View>
 
           <View style={styles.section}>
@@ -261,12 +562,79 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
             </View>
           </View>
 
-          {task.isRecurring && task.recurrencePattern && (
+          {series && (
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, { color: theme.text }]}>Recurrence</Text>
               <Text style={[styles.recurrenceText, { color: theme.text }]}>
-                {formatRecurrenceText(task.recurrencePattern, task.recurrenceInterval)}
+                {formatRecurrenceText(series)}
               </Text>
+              {!!occurrencePosition?.total && (
+                <Text style={[styles.occurrenceText, { color: theme.textSecondary }]}>
+                  Occurrence {occurrencePosition.index} of {occurrencePosition.total}
+                </Text>
+              )}
+              {!!seriesSummary?.valueCount && (
+                <Text style={[styles.occurrenceText, { color: theme.textSecondary }]}>
+                  Logged {seriesSummary.valueCount} {seriesSummary.valueCount === 1 ? 'time' : 'times'}
+                  {` · total ${formatValue(seriesSummary.total)}`}
+                  {seriesSummary.average !== undefined && ` · average ${formatValue(seriesSummary.average)}`}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {(blockers.length > 0 || dependents.length > 0 || !isCompleted) && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Blocked By</Text>
+              {blockers.map(blocker => {
+                const isDone = completedRelatedIds.has(blocker.id) || !!blocker.skippedAt;
+                return (
+                  <View key={blocker.id} style={styles.dependencyRow}>
+                    <Icon
+                      name={isDone ? 'lock-open' : 'lock'}
+                      size={18}
+                      color={isDone ? theme.success : theme.error}
+                    />
+                    <TouchableOpacity
+                      style={styles.dependencyInfo}
+                      onPress={() => navigation.push('TaskDetail', { taskId: blocker.id })}
+                    >
+                      <Text style={[styles.dependencyTitle, { color: theme.text }]}>{blocker.title}</Text>
+                      <Text style={[styles.dependencyDate, { color: theme.textSecondary }]}>
+                        {isDone ? 'Done' : `Due ${formatDate(blocker.dueDate)}`}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleRemoveBlocker(blocker)}>
+                      <Icon name="close" size={20} color={theme.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+              <TouchableOpacity style={styles.dependencyRow} onPress={handleAddBlocker}>
+                <Icon name="add" size={18} color={theme.primary} />
+                <Text style={[styles.addBlockerText, { color: theme.primary }]}>Add blocker</Text>
+              </TouchableOpacity>
+
+              {dependents.length > 0 && (
+                <>
+                  <Text style={[styles.sectionTitle, styles.blocksTitle, { color: theme.text }]}>Blocks</Text>
+                  {dependents.map(dependent => (
+                    <TouchableOpacity
+                      key={dependent.id}
+                      style={styles.dependencyRow}
+                      onPress={() => navigation.push('TaskDetail', { taskId: dependent.id })}
+                    >
+                      <Icon name="subdirectory-arrow-right" size={18} color={theme.textSecondary} />
+                      <View style={styles.dependencyInfo}>
+                        <Text style={[styles.dependencyTitle, { color: theme.text }]}>{dependent.title}</Text>
+                        <Text style={[styles.dependencyDate, { color: theme.textSecondary }]}>
+                          {completedRelatedIds.has(dependent.id) ? 'Done' : `Due ${formatDate(dependent.dueDate)}`}
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </>
+              )}
             </View>
           )}
 
@@ -276,6 +644,18 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
               <Text style={[styles.overdueWarningText, { color: theme.error }]}>This task is overdue</Text>
             </View>
           )}
+
+          {isSkipped && (
+            <View style={[styles.skippedNotice, { backgroundColor: theme.textSecondary + '20' }]}>
+              <Icon name="skip-next" size={20} color={theme.textSecondary} />
+              <Text style={[styles.skippedNoticeText, { color: theme.textSecondary }]}>
+                This occurrence was skipped
+              </Text>
+              <TouchableOpacity onPress={handleUnskipTask}>
+                <Text style={[styles.undoSkipText, { color: theme.primary }]}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         {/* Completion History */}
@@ -294,7 +674,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
               // Validate date
               const isValidDate = !isNaN(completionDate.getTime());
               const dateString = isValidDate 
-                ? formatDate(completion.completedAt) 
+                ? formatDate(completionDate) 
                 : 'Unknown date';
               const timeString = isValidDate 
                 ? completionDate.toLocaleTimeString('en-US', { 
@@ -315,17 +695,31 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
                     <Text style={[styles.completionDate, { color: theme.text }]}>
                       {dateString}{timeString ? ` at ${timeString}` : ''}
                     </Text>
+                    <TouchableOpacity
+                      style={styles.editCompletionButton}
+                      onPress={() => setEditingCompletion(completion)}
+                    >
+                      <Icon name="edit" size={18} color={theme.textSecondary} />
+                    </TouchableOpacity>
                   </View>
                   {analytics?.wasCompletedLate && (
                     <Text style={[styles.lateText, { color: theme.warning }]}>
                       {taskService.getLateCompletionDescription(analytics)}
                     </Text>
                   )}
+                  {completion.value !== undefined && (
+                    <Text style={[styles.completionNotes, { color: theme.text }]}>
+                      Value: {formatValue(completion.value)}
+                    </Text>
+                  )}
                   {completion.notes && (
                     <Text style={[styles.completionNotes, { color: theme.textSecondary }]}>
                       "{completion.notes}"
                     </Text>
                   )}
+                  {completion.photoPath && (
+                    <Image source={{ uri: completion.photoPath }} style={styles.completionPhoto} />
+                  )}
                 </View>
               );
             })}
@@ -344,7 +738,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
               { backgroundColor: theme.success },
               isCompleted && { backgroundColor: theme.success + '80', opacity: 0.7 }
             ]}
-            onPress={handleCompleteTask}
+            onPress={() => setShowCompletionSheet(true)}
             disabled={isCompleted}
           >
             <Icon 
@@ -353,10 +747,50 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
               color={theme.surface} 
             />
             <Text style={[styles.completeButtonText, { color: theme.surface }]}>
-              {isCompleted ? 'Completed Today' : 'Complete Task'}
+              {isCompleted ? 'Completed' : 'Complete Task'}
             </Text>
           </TouchableOpacity>
 
+          {isCompleted && (
+            <View style={styles.secondaryActions}>
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: theme.border, backgroundColor: theme.cardBackground }]}
+                onPress={handleReopenTask}
+              >
+                <Icon name="undo" size={20} color={theme.text} />
+                <Text style={[styles.secondaryButtonText, { color: theme.text }]}>Reopen</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!isCompleted && (
+            <View style={styles.secondaryActions}>
+              {!isSkipped && (
+                <TouchableOpacity
+                  style={[styles.secondaryButton, { borderColor: theme.border, backgroundColor: theme.cardBackground }]}
+                  onPress={handleSkipTask}
+                >
+                  <Icon name="skip-next" size={20} color={theme.text} />
+                  <Text style={[styles.secondaryButtonText, { color: theme.text }]}>Skip</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: theme.border, backgroundColor: theme.cardBackground }]}
+                onPress={() => setShowSnoozeModal(true)}
+              >
+                <Icon name="snooze" size={20} color={theme.text} />
+                <Text style={[styles.secondaryButtonText, { color: theme.text }]}>Snooze</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: theme.border, backgroundColor: theme.cardBackground }]}
+                onPress={() => setShowReschedulePicker(true)}
+              >
+                <Icon name="event" size={20} color={theme.text} />
+                <Text style={[styles.secondaryButtonText, { color: theme.text }]}>Reschedule</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           <TouchableOpacity
             style={[styles.deleteButton, { backgroundColor: theme.error }]}
             onPress={handleDeleteTask}
@@ -366,6 +800,49 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ navigation, route }
           </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <SeriesScopeModal
+        visible={showScopeModal}
+        action="delete"
+        onSelect={deleteTask}
+        onCancel={() => setShowScopeModal(false)}
+      />
+
+      <SnoozeModal
+        visible={showSnoozeModal}
+        onSelect={handleSnoozeTask}
+        onReschedule={() => {
+          setShowSnoozeModal(false);
+          setShowReschedulePicker(true);
+        }}
+        onCancel={() => setShowSnoozeModal(false)}
+      />
+
+      <DateTimePickerModal
+        isVisible={showReschedulePicker}
+        mode={task.dueTime ? 'datetime' : 'date'}
+        date={getRescheduleStartDate()}
+        onConfirm={handleRescheduleTask}
+        onCancel={() => setShowReschedulePicker(false)}
+      />
+
+      <TaskPickerModal
+        visible={!!blockerCandidates}
+        title="Blocked by"
+        tasks={blockerCandidates ?? []}
+        onSelect={handleSelectBlocker}
+        onCancel={() => setBlockerCandidates(null)}
+      />
+
+      <CompletionSheet
+        visible={showCompletionSheet || !!editingCompletion}
+        completion={editingCompletion}
+        onSave={editingCompletion ? handleSaveCompletion : handleCompleteTask}
+        onCancel={() => {
+          setShowCompletionSheet(false);
+          setEditingCompletion(null);
+        }}
+      />
     </SafeAreaView>
   );
 };
@@ -437,6 +914,19 @@ const styles = StyleSheet.create({
   dateText: {
     fontSize: 16,
   },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  subtaskTitle: {
+    fontSize: 16,
+    marginLeft: 10,
+    flex: 1,
+  },
+  subtaskChecked: {
+    textDecorationLine: 'line-through',
+  },
   priorityContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -453,6 +943,33 @@ const styles = StyleSheet.create({
   recurrenceText: {
     fontSize: 16,
   },
+  occurrenceText: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  dependencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  dependencyInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  dependencyTitle: {
+    fontSize: 16,
+  },
+  dependencyDate: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  addBlockerText: {
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  blocksTitle: {
+    marginTop: 12,
+  },
   overdueWarning: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -465,6 +982,28 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     fontWeight: '500',
   },
+  originalDueText: {
+    fontSize: 14,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  skippedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 10,
+  },
+  skippedNoticeText: {
+    flex: 1,
+    fontSize: 14,
+    marginLeft: 8,
+    fontWeight: '500',
+  },
+  undoSkipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   actions: {
     gap: 15,
   },
@@ -480,6 +1019,24 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  secondaryActions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   deleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -502,10 +1059,14 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   completionDate: {
+    flex: 1,
     fontSize: 14,
     fontWeight: '500',
     marginLeft: 8,
   },
+  editCompletionButton: {
+    padding: 4,
+  },
   lateText: {
     fontSize: 12,
     fontStyle: 'italic',
@@ -517,6 +1078,13 @@ const styles = StyleSheet.create({
     marginLeft: 28,
     fontStyle: 'italic',
   },
+  completionPhoto: {
+    width: 96,
+    height: 96,
+    borderRadius: 6,
+    marginLeft: 28,
+    marginTop: 6,
+  },
   moreCompletions: {
     fontSize: 12,
     textAlign: 'center',
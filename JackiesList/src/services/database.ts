@@ -1,30 +1,68 @@
-import SQLite from 'react-native-sqlite-storage';
-import { Task, TaskCompletion, Category } from '../types';
-
-// Enable promise support for SQLite
-SQLite.enablePromise(true);
-SQLite.DEBUG(true); // Enable debug logging
-
-class DatabaseService {
-  private db: SQLite.SQLiteDatabase | null = null;
+import {
+  Task,
+  TaskCompletion,
+  CompletionDetails,
+  Category,
+  TaskSeries,
+  SeriesOverride,
+  Subtask,
+  ChecklistProgress,
+  Tag,
+  SearchFilters,
+} from '../types';
+import { runMigrations } from './migrations';
+import { openDeviceStorage, SqlRow, SqlValue, StorageAdapter } from './storage';
+import { addDays, getDateString, getDueDateTime, getLocalDayRange, getTimeString } from '../utils/date';
+import { generateId } from '../utils/id';
+
+// The blockers of task `t` that are neither completed nor skipped
+const OPEN_BLOCKERS = `
+  SELECT 1 FROM task_dependencies d
+  JOIN tasks b ON b.id = d.blocked_by_id
+  WHERE d.task_id = t.id AND b.skipped_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM task_completions bc WHERE bc.task_id = b.id)
+`;
+
+// The columns queries on tags read
+type TagRow = { id: string; name: string };
+
+// Stays well under SQLite's limit on bound parameters in one statement
+const MAX_BOUND_PARAMS = 500;
+
+// Splits items into batches small enough for one statement each
+const chunk = <T>(items: T[], size: number = MAX_BOUND_PARAMS): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class DatabaseService {
+  private storage: StorageAdapter | null = null;
+  // What queries run on. On the service every statement waits its turn in
+  // the queue; a transaction handle runs straight on the storage it holds.
+  private db: Pick<StorageAdapter, 'executeSql'> | null = null;
   private isInitialized: boolean = false;
-
-  async init(): Promise<void> {
+  // Set on the handle a transaction gives its work, never on the service itself
+  private inTransaction: boolean = false;
+  // Settles when every statement and transaction queued so far has finished
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Opens the database on `storage`, or on the device database if none is
+   * given, and brings its schema up to date
+   */
+  async init(storage?: StorageAdapter): Promise<void> {
     try {
       console.log('Database: Starting initialization...');
       
-      // Check if SQLite is available
-      if (!SQLite) {
-        throw new Error('SQLite module is not available');
-      }
-      
       console.log('Database: Opening database...');
-      this.db = await SQLite.openDatabase({
-        name: 'JackiesList.db',
-        location: 'default',
-        createFromLocation: undefined,
-        readOnly: false,
-      });
+      const opened = storage ?? (await openDeviceStorage());
+      this.storage = opened;
+      this.db = {
+        executeSql: (statement, params) => this.enqueue(() => opened.executeSql(statement, params)),
+      };
       
       console.log('Database: Database opened successfully');
       
@@ -33,9 +71,9 @@ class DatabaseService {
       await this.db.executeSql('SELECT 1');
       console.log('Database: Connection test passed');
       
-      console.log('Database: Creating tables...');
-      await this.createTables();
-      console.log('Database: Tables created successfully');
+      console.log('Database: Running migrations...');
+      await this.migrate();
+      console.log('Database: Migrations completed successfully');
       
       this.isInitialized = true;
       console.log('Database: Initialization completed successfully');
@@ -49,6 +87,7 @@ class DatabaseService {
       }
       
       this.isInitialized = false;
+      this.storage = null;
       this.db = null;
       
       throw new Error(`Database initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -59,103 +98,253 @@ class DatabaseService {
     return this.isInitialized && this.db !== null;
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const queries = [
-      `CREATE TABLE IF NOT EXISTS categories (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        color TEXT NOT NULL,
-        icon TEXT
-      )`,
-      `CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        type TEXT NOT NULL,
-        due_date TEXT NOT NULL,
-        due_time TEXT,
-        is_recurring INTEGER NOT NULL DEFAULT 0,
-        recurrence_pattern TEXT,
-        recurrence_interval INTEGER,
-        priority TEXT NOT NULL DEFAULT 'medium',
-        category_id TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (category_id) REFERENCES categories(id)
-      )`,
-      `CREATE TABLE IF NOT EXISTS task_completions (
-        id TEXT PRIMARY KEY,
-        task_id TEXT NOT NULL,
-        completed_at TEXT NOT NULL,
-        notes TEXT,
-        FOREIGN KEY (task_id) REFERENCES tasks(id)
-      )`,
-    ];
+  async close(): Promise<void> {
+    const storage = this.storage;
+    this.storage = null;
+    this.db = null;
+    this.isInitialized = false;
+    if (storage) {
+      await this.enqueue(() => storage.close());
+    }
+  }
 
-    for (let i = 0; i < queries.length; i++) {
-      const query = queries[i];
-      try {
-        console.log(`Creating table ${i + 1}/${queries.length}`);
-        await this.db.executeSql(query);
-        console.log(`Table ${i + 1}/${queries.length} created successfully`);
-      } catch (error) {
-        console.error(`Error creating table ${i + 1}:`, error);
-        throw new Error(`Failed to create table ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+  // Runs `run` once everything queued before it has finished
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(run);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private mapTaskRow(row: any): Task {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      type: row.type,
+      dueDate: row.due_date,
+      dueTime: row.due_time,
+      timeZone: row.time_zone ?? undefined,
+      isRecurring: row.is_recurring === 1,
+      recurrencePattern: row.recurrence_pattern,
+      recurrenceInterval: row.recurrence_interval,
+      rrule: row.rrule ?? undefined,
+      recurrenceMode: row.recurrence_mode ?? undefined,
+      recurrenceUntil: row.recurrence_until ?? undefined,
+      recurrenceCount: row.recurrence_count ?? undefined,
+      priority: row.priority,
+      categoryId: row.category_id,
+      seriesId: row.series_id ?? undefined,
+      occurrenceDate: row.occurrence_date ?? undefined,
+      skippedAt: row.skipped_at ?? undefined,
+      originalDueDate: row.original_due_date ?? undefined,
+      originalDueTime: row.original_due_time ?? undefined,
+      autoCompleteChecklist: row.auto_complete_checklist === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapSeriesRow(row: any): TaskSeries {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      type: row.type,
+      dueTime: row.due_time,
+      timeZone: row.time_zone ?? undefined,
+      priority: row.priority,
+      categoryId: row.category_id,
+      recurrencePattern: row.recurrence_pattern,
+      recurrenceInterval: row.recurrence_interval,
+      rrule: row.rrule ?? undefined,
+      recurrenceMode: row.recurrence_mode ?? 'schedule',
+      startDate: row.start_date,
+      untilDate: row.until_date ?? undefined,
+      occurrenceCount: row.occurrence_count ?? undefined,
+      autoCompleteChecklist: row.auto_complete_checklist === 1,
+      generatedThrough: row.generated_through ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapCompletionRow(row: any): TaskCompletion {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      completedAt: row.completed_at,
+      notes: row.notes,
+      value: row.value ?? undefined,
+      photoPath: row.photo_path ?? undefined,
+    };
+  }
+
+  private mapSubtaskRow(row: any): Subtask {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      title: row.title,
+      position: row.position,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+
+  private async migrate(): Promise<void> {
+    if (!this.storage) throw new Error('Database not initialized');
+
+    const storage = this.storage;
+    try {
+      // Migrations run their own transactions, so nothing else may run between their statements
+      const version = await this.enqueue(() => runMigrations(storage));
+      console.log(`Database: Schema version ${version}`);
+    } catch (error) {
+      console.error('Database: Error migrating schema:', error);
+      throw new Error(`Failed to migrate database: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Runs `work` inside a single transaction, rolling back every write it made
+   * if it throws. The transaction holds the connection until it finishes, so
+   * queries and transactions started elsewhere wait for it. `work` is given
+   * the handle to run its queries on; transactions started through the
+   * handle join this one.
+   */
+  async transaction<T>(work: (tx: DatabaseService) => Promise<T>): Promise<T> {
+    if (!this.storage) throw new Error('Database not initialized');
+
+    if (this.inTransaction) {
+      return work(this);
+    }
+
+    const storage = this.storage;
+    return this.enqueue(() =>
+      storage.transaction(() => {
+        const tx: DatabaseService = Object.create(this);
+        tx.inTransaction = true;
+        tx.db = storage;
+        return work(tx);
+      })
+    );
+  }
+
+  /**
+   * Inserts `rows` into `table` in as few statements as the bound parameter
+   * limit allows, all in one transaction. Every row has the same columns.
+   */
+  async insertMany(table: string, rows: Record<string, SqlValue>[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    const columns = Object.keys(rows[0]);
+    const placeholders = `(${columns.map(() => '?').join(', ')})`;
+    const rowsPerStatement = Math.max(1, Math.floor(MAX_BOUND_PARAMS / columns.length));
+
+    await this.transaction(async tx => {
+      const db = tx.db!;
+      for (const batch of chunk(rows, rowsPerStatement)) {
+        await db.executeSql(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${batch.map(() => placeholders).join(', ')}`,
+          batch.flatMap(row => columns.map(column => row[column] ?? null))
+        );
+      }
+    });
+  }
+
   async createTask(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Promise<Task> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
       console.log('Creating task:', task);
-      
-      const id = Date.now().toString();
-      const now = new Date().toISOString();
-      
-      const query = `
-        INSERT INTO tasks (
-          id, title, description, type, due_date, due_time,
-          is_recurring, recurrence_pattern, recurrence_interval,
-          priority, category_id, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `;
 
-      const params = [
-        id,
-        task.title,
-        task.description || null,
-        task.type,
-        task.dueDate,
-        task.dueTime || null,
-        task.isRecurring ? 1 : 0,
-        task.recurrencePattern || null,
-        task.recurrenceInterval || null,
-        task.priority,
-        task.categoryId || null,
-        now,
-        now,
-      ];
-
-      console.log('Executing create task query with params:', params);
-      await this.db.executeSql(query, params);
-      console.log('Task created successfully with id:', id);
+      const [created] = await this.insertTasks([task]);
+      console.log('Task created successfully with id:', created.id);
 
-      return {
-        ...task,
-        id,
-        createdAt: now,
-        updatedAt: now,
-      };
+      return created;
     } catch (error) {
       console.error('Error creating task:', error);
       throw new Error(`Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Inserts tasks in one transaction. Instances of a series start with their
+   * own copy of its checklist and tags.
+   */
+  private async insertTasks(tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<Task[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    const created = tasks.map(task => ({ ...task, id: generateId(), createdAt: now, updatedAt: now }));
+
+    await this.transaction(async tx => {
+      const db = tx.db!;
+      await tx.insertMany(
+        'tasks',
+        created.map(task => ({
+          id: task.id,
+          title: task.title,
+          description: task.description || null,
+          type: task.type,
+          due_date: task.dueDate,
+          due_time: task.dueTime || null,
+          time_zone: task.timeZone || null,
+          is_recurring: task.isRecurring ? 1 : 0,
+          recurrence_pattern: task.recurrencePattern || null,
+          recurrence_interval: task.recurrenceInterval || null,
+          rrule: task.rrule || null,
+          recurrence_mode: task.recurrenceMode || null,
+          recurrence_until: task.recurrenceUntil || null,
+          recurrence_count: task.recurrenceCount || null,
+          priority: task.priority,
+          category_id: task.categoryId || null,
+          series_id: task.seriesId || null,
+          occurrence_date: task.occurrenceDate || null,
+          auto_complete_checklist: task.autoCompleteChecklist ? 1 : 0,
+          created_at: now,
+          updated_at: now,
+        }))
+      );
+
+      const instanceIds = created.filter(task => task.seriesId).map(task => task.id);
+      for (const ids of chunk(instanceIds)) {
+        const placeholders = ids.map(() => '?').join(', ');
+        const [items] = await db.executeSql(
+          `SELECT t.id as task_id, c.title, c.position
+           FROM tasks t JOIN series_checklist_items c ON c.series_id = t.series_id
+           WHERE t.id IN (${placeholders})`,
+          ids
+        );
+        const subtasks: Record<string, SqlValue>[] = [];
+        for (let i = 0; i < items.rows.length; i++) {
+          const item = items.rows.item(i);
+          subtasks.push({
+            id: generateId(),
+            task_id: item.task_id,
+            title: item.title,
+            position: item.position,
+            created_at: now,
+          });
+        }
+        await tx.insertMany('subtasks', subtasks);
+        await db.executeSql(
+          `INSERT INTO task_tags (task_id, tag_id)
+           SELECT t.id, s.tag_id FROM tasks t JOIN series_tags s ON s.series_id = t.series_id
+           WHERE t.id IN (${placeholders})`,
+          ids
+        );
+      }
+    });
+
+    return created;
+  }
+
   async getTasks(date?: string): Promise<Task[]> {
     if (!this.db) {
       console.error('Database not initialized when trying to get tasks');
@@ -170,7 +359,7 @@ class DatabaseService {
       
 
       if (date) {
-        query += ' WHERE date(due_date) = date(?)';
+        query += ' WHERE due_date = ?';
         params.push(date);
       }
 
@@ -184,21 +373,7 @@ class DatabaseService {
 
       for (let i = 0; i < result.rows.length; i++) {
         const row = result.rows.item(i);
-        tasks.push({
-          id: row.id,
-          title: row.title,
-          description: row.description,
-          type: row.type,
-          dueDate: row.due_date,
-          dueTime: row.due_time,
-          isRecurring: row.is_recurring === 1,
-          recurrencePattern: row.recurrence_pattern,
-          recurrenceInterval: row.recurrence_interval,
-          priority: row.priority,
-          categoryId: row.category_id,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at,
-        });
+        tasks.push(this.mapTaskRow(row));
       }
 
       console.log(`Successfully parsed ${tasks.length} tasks`);
@@ -211,19 +386,62 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Tasks due between two dates (inclusive) in one query, grouped by due
+   * date. Dates without tasks are left out.
+   */
+  async getTasksInRange(startDate: string, endDate: string): Promise<Map<string, Task[]>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(
+      'SELECT * FROM tasks WHERE due_date BETWEEN ? AND ? ORDER BY due_date, due_time',
+      [startDate, endDate]
+    );
+    const tasksByDate = new Map<string, Task[]>();
+
+    for (let i = 0; i < result.rows.length; i++) {
+      const task = this.mapTaskRow(result.rows.item(i));
+      const dayTasks = tasksByDate.get(task.dueDate) ?? [];
+      dayTasks.push(task);
+      tasksByDate.set(task.dueDate, dayTasks);
+    }
+
+    return tasksByDate;
+  }
+
+  private buildUpdateAssignments(updates: object): { fields: string[]; values: any[] } {
+    // Series exception dates, overrides, checklists and tags are stored in their own tables
+    const entries = Object.entries(updates).filter(
+      ([key]) =>
+        key !== 'id' &&
+        key !== 'createdAt' &&
+        key !== 'updatedAt' &&
+        key !== 'exceptionDates' &&
+        key !== 'overrides' &&
+        key !== 'checklist' &&
+        key !== 'tags'
+    );
+
+    return {
+      // Map camelCase to snake_case for database columns
+      fields: entries.map(([key]) => `${key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)} = ?`),
+      // Handle boolean and missing values properly for SQLite
+      values: entries.map(([, value]) => {
+        if (typeof value === 'boolean') {
+          return value ? 1 : 0;
+        }
+        return value === undefined ? null : value;
+      }),
+    };
+  }
+
   async updateTask(id: string, updates: Partial<Task>): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
       console.log('Updating task:', id, 'with updates:', updates);
       
-      const fields = Object.keys(updates)
-        .filter(key => key !== 'id' && key !== 'createdAt')
-        .map(key => {
-          // Map camelCase to snake_case for database columns
-          const dbKey = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
-          return `${dbKey} = ?`;
-        });
+      const { fields, values } = this.buildUpdateAssignments(updates);
 
       if (fields.length === 0) {
         console.log('No fields to update');
@@ -231,23 +449,11 @@ class DatabaseService {
       }
 
       const query = `UPDATE tasks SET ${fields.join(', ')}, updated_at = ? WHERE id = ?`;
-      const values = Object.values(updates).filter((_, index) => {
-        const key = Object.keys(updates)[index];
-        return key !== 'id' && key !== 'createdAt';
-      });
       
-      // Handle boolean values properly for SQLite
-      const processedValues = values.map(value => {
-        if (typeof value === 'boolean') {
-          return value ? 1 : 0;
-        }
-        return value;
-      });
-      
-      processedValues.push(new Date().toISOString(), id);
+      values.push(new Date().toISOString(), id);
       
-      console.log('Executing update query:', query, 'with values:', processedValues);
-      await this.db.executeSql(query, processedValues);
+      console.log('Executing update query:', query, 'with values:', values);
+      await this.db.executeSql(query, values);
       console.log('Task updated successfully');
     } catch (error) {
       console.error('Error updating task:', error);
@@ -258,28 +464,298 @@ class DatabaseService {
   async deleteTask(id: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    await this.db.executeSql('DELETE FROM task_completions WHERE task_id = ?', [id]);
-    await this.db.executeSql('DELETE FROM tasks WHERE id = ?', [id]);
+    await this.transaction(async tx => {
+      const db = tx.db!;
+      await db.executeSql('DELETE FROM task_completions WHERE task_id = ?', [id]);
+      await db.executeSql('DELETE FROM subtasks WHERE task_id = ?', [id]);
+      await db.executeSql('DELETE FROM task_tags WHERE task_id = ?', [id]);
+      await db.executeSql('DELETE FROM task_dependencies WHERE task_id = ? OR blocked_by_id = ?', [id, id]);
+      await db.executeSql('DELETE FROM tasks WHERE id = ?', [id]);
+    });
+  }
+
+  async addDependency(taskId: string, blockedById: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql(
+      'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id, created_at) VALUES (?, ?, ?)',
+      [taskId, blockedById, new Date().toISOString()]
+    );
   }
 
-  async completeTask(taskId: string, notes?: string): Promise<TaskCompletion> {
+  async removeDependency(taskId: string, blockedById: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const id = Date.now().toString();
+    await this.db.executeSql('DELETE FROM task_dependencies WHERE task_id = ? AND blocked_by_id = ?', [
+      taskId,
+      blockedById,
+    ]);
+  }
+
+  /**
+   * Whether `taskId` waits on `otherId`, directly or through a chain of
+   * blockers
+   */
+  async isBlockedBy(taskId: string, otherId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(
+      `WITH RECURSIVE blockers(id) AS (
+        SELECT blocked_by_id FROM task_dependencies WHERE task_id = ?
+        UNION
+        SELECT d.blocked_by_id FROM task_dependencies d JOIN blockers ON d.task_id = blockers.id
+      )
+      SELECT 1 FROM blockers WHERE id = ?`,
+      [taskId, otherId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  // The tasks that have to happen before the given one
+  async getBlockers(taskId: string): Promise<Task[]> {
+    return this.getDependencyTasks(
+      `SELECT t.* FROM task_dependencies d JOIN tasks t ON t.id = d.blocked_by_id
+       WHERE d.task_id = ? ORDER BY t.due_date, t.due_time`,
+      taskId
+    );
+  }
+
+  // The tasks waiting on the given one
+  async getDependents(taskId: string): Promise<Task[]> {
+    return this.getDependencyTasks(
+      `SELECT t.* FROM task_dependencies d JOIN tasks t ON t.id = d.task_id
+       WHERE d.blocked_by_id = ? ORDER BY t.due_date, t.due_time`,
+      taskId
+    );
+  }
+
+  private async getDependencyTasks(query: string, taskId: string): Promise<Task[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(query, [taskId]);
+    const tasks: Task[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      tasks.push(this.mapTaskRow(result.rows.item(i)));
+    }
+
+    return tasks;
+  }
+
+  /**
+   * The blockers still open (neither completed nor skipped) for each of the
+   * given tasks, keyed by task id. Tasks that are free to start are left out.
+   */
+  async getOpenBlockers(taskIds: string[]): Promise<Map<string, Task[]>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const blockers = new Map<string, Task[]>();
+
+    for (const ids of chunk(taskIds)) {
+      const [result] = await this.db.executeSql<SqlRow & { blocked_task_id: string }>(
+        `SELECT d.task_id as blocked_task_id, b.* FROM task_dependencies d
+         JOIN tasks b ON b.id = d.blocked_by_id
+         WHERE d.task_id IN (${ids.map(() => '?').join(', ')})
+           AND b.skipped_at IS NULL
+           AND NOT EXISTS (SELECT 1 FROM task_completions bc WHERE bc.task_id = b.id)
+         ORDER BY b.due_date, b.due_time`,
+        ids
+      );
+
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        blockers.set(row.blocked_task_id, [...(blockers.get(row.blocked_task_id) ?? []), this.mapTaskRow(row)]);
+      }
+    }
+
+    return blockers;
+  }
+
+  async getSubtasks(taskId: string): Promise<Subtask[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(
+      'SELECT * FROM subtasks WHERE task_id = ? ORDER BY position',
+      [taskId]
+    );
+    const subtasks: Subtask[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      subtasks.push(this.mapSubtaskRow(result.rows.item(i)));
+    }
+
+    return subtasks;
+  }
+
+  async createSubtask(taskId: string, title: string, position: number): Promise<Subtask> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = generateId();
+    await this.db.executeSql(
+      'INSERT INTO subtasks (id, task_id, title, position, created_at) VALUES (?, ?, ?, ?, ?)',
+      [id, taskId, title, position, new Date().toISOString()]
+    );
+
+    return { id, taskId, title, position };
+  }
+
+  async updateSubtask(
+    id: string,
+    updates: Partial<Pick<Subtask, 'title' | 'position' | 'completedAt'>>
+  ): Promise<Subtask | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { fields, values } = this.buildUpdateAssignments(updates);
+    if (fields.length > 0) {
+      await this.db.executeSql(`UPDATE subtasks SET ${fields.join(', ')} WHERE id = ?`, [...values, id]);
+    }
+
+    const [result] = await this.db.executeSql('SELECT * FROM subtasks WHERE id = ?', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapSubtaskRow(result.rows.item(0));
+  }
+
+  async uncheckSubtasks(taskId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('UPDATE subtasks SET completed_at = NULL WHERE task_id = ?', [taskId]);
+  }
+
+  async deleteSubtask(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('DELETE FROM subtasks WHERE id = ?', [id]);
+  }
+
+  /**
+   * How many checklist items each task has and how many are checked, keyed
+   * by task id. Tasks without a checklist are left out.
+   */
+  async getChecklistProgress(taskIds: string[]): Promise<Map<string, ChecklistProgress>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const progress = new Map<string, ChecklistProgress>();
+
+    for (const ids of chunk(taskIds)) {
+      const [result] = await this.db.executeSql<{ task_id: string; total: number; done: number }>(
+        `SELECT task_id, COUNT(*) as total, COUNT(completed_at) as done FROM subtasks
+         WHERE task_id IN (${ids.map(() => '?').join(', ')})
+         GROUP BY task_id`,
+        ids
+      );
+
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        progress.set(row.task_id, { done: row.done, total: row.total });
+      }
+    }
+
+    return progress;
+  }
+
+  async getTags(): Promise<Tag[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql<TagRow>('SELECT id, name FROM tags ORDER BY name COLLATE NOCASE');
+    const tags: Tag[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      tags.push({ id: row.id, name: row.name });
+    }
+
+    return tags;
+  }
+
+  // Returns the tag with the given name, ignoring case, creating it if needed
+  async getOrCreateTag(name: string): Promise<Tag> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql<TagRow>('SELECT id, name FROM tags WHERE name = ?', [name]);
+    if (result.rows.length > 0) {
+      const row = result.rows.item(0);
+      return { id: row.id, name: row.name };
+    }
+
+    const id = generateId();
+    await this.db.executeSql('INSERT INTO tags (id, name, created_at) VALUES (?, ?, ?)', [
+      id,
+      name,
+      new Date().toISOString(),
+    ]);
+
+    return { id, name };
+  }
+
+  /**
+   * The tags of each of the given tasks in name order, keyed by task id.
+   * Tasks without tags are left out.
+   */
+  async getTaskTags(taskIds: string[]): Promise<Map<string, Tag[]>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const tags = new Map<string, Tag[]>();
+
+    for (const ids of chunk(taskIds)) {
+      const [result] = await this.db.executeSql<TagRow & { task_id: string }>(
+        `SELECT tt.task_id, t.id, t.name FROM task_tags tt
+         JOIN tags t ON t.id = tt.tag_id
+         WHERE tt.task_id IN (${ids.map(() => '?').join(', ')})
+         ORDER BY t.name COLLATE NOCASE`,
+        ids
+      );
+
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        const taskTags = tags.get(row.task_id) ?? [];
+        taskTags.push({ id: row.id, name: row.name });
+        tags.set(row.task_id, taskTags);
+      }
+    }
+
+    return tags;
+  }
+
+  async setTaskTags(taskId: string, tagIds: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('DELETE FROM task_tags WHERE task_id = ?', [taskId]);
+    for (const tagId of tagIds) {
+      await this.db.executeSql('INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES (?, ?)', [taskId, tagId]);
+    }
+  }
+
+  async completeTask(taskId: string, details: CompletionDetails = {}): Promise<TaskCompletion> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = generateId();
     const completedAt = new Date().toISOString();
 
     const query = `
-      INSERT INTO task_completions (id, task_id, completed_at, notes)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO task_completions (id, task_id, completed_at, notes, value, photo_path)
+      VALUES (?, ?, ?, ?, ?, ?)
     `;
 
-    await this.db.executeSql(query, [id, taskId, completedAt, notes || null]);
+    await this.db.executeSql(query, [
+      id,
+      taskId,
+      completedAt,
+      details.notes || null,
+      details.value ?? null,
+      details.photoPath || null,
+    ]);
 
     return {
       id,
       taskId,
       completedAt,
-      notes,
+      notes: details.notes,
+      value: details.value,
+      photoPath: details.photoPath,
     };
   }
 
@@ -296,8 +772,10 @@ class DatabaseService {
     }
 
     if (date) {
-      conditions.push('date(completed_at) = date(?)');
-      params.push(date);
+      // Completions are UTC instants, so match the instants of the local day
+      const { start, end } = getLocalDayRange(date);
+      conditions.push('completed_at >= ? AND completed_at < ?');
+      params.push(start, end);
     }
 
     if (conditions.length > 0) {
@@ -309,91 +787,653 @@ class DatabaseService {
 
     for (let i = 0; i < result.rows.length; i++) {
       const row = result.rows.item(i);
-      completions.push({
-        id: row.id,
-        taskId: row.task_id,
-        completedAt: row.completed_at,
-        notes: row.notes,
-      });
+      completions.push(this.mapCompletionRow(row));
     }
 
     return completions;
   }
 
-  async isTaskCompletedToday(taskId: string): Promise<boolean> {
+  /**
+   * The completions of each of the given tasks, oldest first, keyed by task
+   * id. Tasks that were never completed are left out.
+   */
+  async getCompletionsForTasks(taskIds: string[]): Promise<Map<string, TaskCompletion[]>> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const today = new Date().toISOString().split('T')[0];
-    const query = `
-      SELECT COUNT(*) as count FROM task_completions 
-      WHERE task_id = ? AND date(completed_at) = date(?)
-    `;
+    const completions = new Map<string, TaskCompletion[]>();
 
-    const [result] = await this.db.executeSql(query, [taskId, today]);
-    const count = result.rows.item(0).count;
-    
-    return count > 0;
+    for (const ids of chunk(taskIds)) {
+      const [result] = await this.db.executeSql(
+        `SELECT * FROM task_completions
+         WHERE task_id IN (${ids.map(() => '?').join(', ')})
+         ORDER BY completed_at`,
+        ids
+      );
+
+      for (let i = 0; i < result.rows.length; i++) {
+        const completion = this.mapCompletionRow(result.rows.item(i));
+        const taskCompletions = completions.get(completion.taskId) ?? [];
+        taskCompletions.push(completion);
+        completions.set(completion.taskId, taskCompletions);
+      }
+    }
+
+    return completions;
+  }
+
+  async getCompletionState(taskIds: string[]): Promise<Map<string, TaskCompletion>> {
+    const completions = await this.getCompletionsForTasks(taskIds);
+
+    // The latest completion of each task
+    return new Map(
+      [...completions].map(([taskId, taskCompletions]) => [taskId, taskCompletions[taskCompletions.length - 1]])
+    );
+  }
+
+  async updateCompletion(
+    id: string,
+    updates: CompletionDetails & { completedAt?: string }
+  ): Promise<TaskCompletion | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { fields, values } = this.buildUpdateAssignments(updates);
+    if (fields.length > 0) {
+      await this.db.executeSql(`UPDATE task_completions SET ${fields.join(', ')} WHERE id = ?`, [...values, id]);
+    }
+
+    const [result] = await this.db.executeSql('SELECT * FROM task_completions WHERE id = ?', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapCompletionRow(result.rows.item(0));
+  }
+
+  /**
+   * Every completion of every instance of a series, newest first
+   */
+  async getSeriesCompletions(seriesId: string): Promise<TaskCompletion[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(
+      `SELECT tc.* FROM task_completions tc
+       JOIN tasks t ON t.id = tc.task_id
+       WHERE t.series_id = ?
+       ORDER BY tc.completed_at DESC`,
+      [seriesId]
+    );
+    const completions: TaskCompletion[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      completions.push(this.mapCompletionRow(result.rows.item(i)));
+    }
+
+    return completions;
+  }
+
+  async deleteCompletions(taskId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('DELETE FROM task_completions WHERE task_id = ?', [taskId]);
   }
 
-  async getOverdueTasks(): Promise<Task[]> {
+  /**
+   * Open tasks past their due date. With `excludeBlocked`, tasks still
+   * waiting on an open blocker are left out, since they cannot be done yet.
+   */
+  async getOverdueTasks(options: { excludeBlocked?: boolean } = {}): Promise<Task[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     const now = new Date();
-    const today = now.toISOString().split('T')[0]; // Get just the date part
-    const currentTime = now.toTimeString().substring(0, 5); // Get HH:MM format
+    const today = getDateString(now);
+    const currentTime = getTimeString(now);
     
+    // A completed task is never overdue, however late it was completed. A
+    // task in a fixed zone can be due up to two dates away from the device's
+    // date, so those are checked against their due instant below.
     const query = `
-      SELECT t.* FROM tasks t
-      LEFT JOIN task_completions tc ON t.id = tc.task_id 
-        AND date(tc.completed_at) = date(t.due_date)
+      SELECT * FROM tasks t
       WHERE (
-        (t.due_date < ? OR 
-         (t.due_date = ? AND t.due_time IS NOT NULL AND t.due_time < ?))
-        AND tc.id IS NULL
+        ((t.time_zone IS NULL AND (t.due_date < ? OR
+           (t.due_date = ? AND t.due_time IS NOT NULL AND t.due_time < ?)))
+         OR (t.time_zone IS NOT NULL AND t.due_date <= ?))
+        AND NOT EXISTS (SELECT 1 FROM task_completions tc WHERE tc.task_id = t.id)
+        AND t.skipped_at IS NULL
+        ${options.excludeBlocked ? `AND NOT EXISTS (${OPEN_BLOCKERS})` : ''}
       )
       ORDER BY t.due_date, t.due_time
     `;
 
-    const [result] = await this.db.executeSql(query, [today, today, currentTime]);
+    const [result] = await this.db.executeSql(query, [today, today, currentTime, addDays(today, 2)]);
     const tasks: Task[] = [];
 
+    for (let i = 0; i < result.rows.length; i++) {
+      const task = this.mapTaskRow(result.rows.item(i));
+      if (!task.timeZone || getDueDateTime(task.dueDate, task.dueTime, task.timeZone) < now) {
+        tasks.push(task);
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Tasks whose title, description or completion notes match a full-text
+   * MATCH expression, latest due date first, with the completion notes of
+   * each task keyed by task id
+   */
+  async searchTasks(
+    matchQuery: string,
+    filters: SearchFilters = {},
+    limit: number = 100
+  ): Promise<{ tasks: Task[]; notes: Map<string, string[]> }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions = ['task_search MATCH ?'];
+    const params: any[] = [matchQuery];
+    const filterColumns: [keyof SearchFilters, string][] = [
+      ['type', 't.type = ?'],
+      ['priority', 't.priority = ?'],
+      ['categoryId', 't.category_id = ?'],
+      ['fromDate', 't.due_date >= ?'],
+      ['toDate', 't.due_date <= ?'],
+    ];
+    for (const [key, condition] of filterColumns) {
+      if (filters[key]) {
+        conditions.push(condition);
+        params.push(filters[key]);
+      }
+    }
+
+    const [result] = await this.db.executeSql<SqlRow & { id: string; search_notes: string | null }>(
+      `SELECT t.*, task_search.notes AS search_notes FROM task_search
+       JOIN tasks t ON t.id = task_search.task_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY t.due_date DESC, t.created_at DESC
+       LIMIT ?`,
+      [...params, limit]
+    );
+    const tasks: Task[] = [];
+    const notes = new Map<string, string[]>();
+
     for (let i = 0; i < result.rows.length; i++) {
       const row = result.rows.item(i);
-      tasks.push({
-        id: row.id,
-        title: row.title,
-        description: row.description,
-        type: row.type,
-        dueDate: row.due_date,
-        dueTime: row.due_time,
-        isRecurring: row.is_recurring === 1,
-        recurrencePattern: row.recurrence_pattern,
-        recurrenceInterval: row.recurrence_interval,
-        priority: row.priority,
-        categoryId: row.category_id,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
+      tasks.push(this.mapTaskRow(row));
+      notes.set(row.id, row.search_notes ? row.search_notes.split('\n') : []);
+    }
+
+    return { tasks, notes };
+  }
+
+  async createSeries(series: Omit<TaskSeries, 'id' | 'createdAt' | 'updatedAt'>): Promise<TaskSeries> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      console.log('Creating task series:', series);
+
+      const id = generateId();
+      const now = new Date().toISOString();
+
+      const query = `
+        INSERT INTO task_series (
+          id, title, description, type, due_time, time_zone, priority, category_id,
+          recurrence_pattern, recurrence_interval, rrule, recurrence_mode, start_date,
+          until_date, occurrence_count, auto_complete_checklist, generated_through, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      await this.transaction(async tx => {
+        const db = tx.db!;
+        await db.executeSql(query, [
+          id,
+          series.title,
+          series.description || null,
+          series.type,
+          series.dueTime || null,
+          series.timeZone || null,
+          series.priority,
+          series.categoryId || null,
+          series.recurrencePattern,
+          series.recurrenceInterval || null,
+          series.rrule || null,
+          series.recurrenceMode,
+          series.startDate,
+          series.untilDate || null,
+          series.occurrenceCount || null,
+          series.autoCompleteChecklist ? 1 : 0,
+          series.generatedThrough || null,
+          now,
+          now,
+        ]);
+        await tx.saveSeriesChecklist(id, series.checklist ?? []);
+        await tx.saveSeriesTags(id, series.tags ?? []);
       });
+      console.log('Task series created successfully with id:', id);
+
+      return {
+        ...series,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+    } catch (error) {
+      console.error('Error creating task series:', error);
+      throw new Error(`Failed to create task series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getSeries(id?: string): Promise<TaskSeries[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT * FROM task_series';
+    const params: any[] = [];
+
+    if (id) {
+      query += ' WHERE id = ?';
+      params.push(id);
+    }
+
+    const [result] = await this.db.executeSql(query, params);
+    const series: TaskSeries[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      series.push(this.mapSeriesRow(result.rows.item(i)));
+    }
+
+    await this.attachSeriesExceptions(series, id);
+    await this.attachSeriesChecklists(series, id);
+    await this.attachSeriesTags(series, id);
+    return series;
+  }
+
+  // Loads the exception dates and overrides of the given series
+  private async attachSeriesExceptions(series: TaskSeries[], id?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const where = id ? ' WHERE series_id = ?' : '';
+    const params = id ? [id] : [];
+    const bySeriesId = new Map(series.map(item => [item.id, item]));
+    series.forEach(item => {
+      item.exceptionDates = [];
+      item.overrides = [];
+    });
+
+    const [exceptionResult] = await this.db.executeSql<{ series_id: string; occurrence_date: string }>(
+      `SELECT * FROM series_exception_dates${where} ORDER BY occurrence_date`,
+      params
+    );
+    for (let i = 0; i < exceptionResult.rows.length; i++) {
+      const row = exceptionResult.rows.item(i);
+      bySeriesId.get(row.series_id)?.exceptionDates!.push(row.occurrence_date);
+    }
+
+    const [overrideResult] = await this.db.executeSql<{
+      series_id: string;
+      occurrence_date: string;
+      due_date: string | null;
+      due_time: string | null;
+      title: string | null;
+      description: string | null;
+    }>(
+      `SELECT * FROM series_overrides${where} ORDER BY occurrence_date`,
+      params
+    );
+    for (let i = 0; i < overrideResult.rows.length; i++) {
+      const row = overrideResult.rows.item(i);
+      bySeriesId.get(row.series_id)?.overrides!.push({
+        occurrenceDate: row.occurrence_date,
+        dueDate: row.due_date ?? undefined,
+        dueTime: row.due_time ?? undefined,
+        title: row.title ?? undefined,
+        description: row.description ?? undefined,
+      });
+    }
+  }
+
+  // Loads the checklist template of the given series
+  private async attachSeriesChecklists(series: TaskSeries[], id?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const bySeriesId = new Map(series.map(item => [item.id, item]));
+    series.forEach(item => {
+      item.checklist = [];
+    });
+
+    const [result] = await this.db.executeSql<{ series_id: string; title: string }>(
+      `SELECT * FROM series_checklist_items${id ? ' WHERE series_id = ?' : ''} ORDER BY position`,
+      id ? [id] : []
+    );
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      bySeriesId.get(row.series_id)?.checklist!.push(row.title);
+    }
+  }
+
+  // Replaces the checklist template of a series; existing instances keep theirs
+  private async saveSeriesChecklist(seriesId: string, checklist: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('DELETE FROM series_checklist_items WHERE series_id = ?', [seriesId]);
+    for (let position = 0; position < checklist.length; position++) {
+      await this.db.executeSql(
+        'INSERT INTO series_checklist_items (series_id, position, title) VALUES (?, ?, ?)',
+        [seriesId, position, checklist[position]]
+      );
+    }
+  }
+
+  // Loads the tag names the given series give their instances
+  private async attachSeriesTags(series: TaskSeries[], id?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const bySeriesId = new Map(series.map(item => [item.id, item]));
+    series.forEach(item => {
+      item.tags = [];
+    });
+
+    const [result] = await this.db.executeSql<{ series_id: string; name: string }>(
+      `SELECT st.series_id, t.name FROM series_tags st
+       JOIN tags t ON t.id = st.tag_id${id ? ' WHERE st.series_id = ?' : ''}
+       ORDER BY t.name COLLATE NOCASE`,
+      id ? [id] : []
+    );
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      bySeriesId.get(row.series_id)?.tags!.push(row.name);
+    }
+  }
+
+  // Replaces the tags of a series; existing instances keep theirs
+  private async saveSeriesTags(seriesId: string, names: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql('DELETE FROM series_tags WHERE series_id = ?', [seriesId]);
+    for (const name of names) {
+      const tag = await this.getOrCreateTag(name);
+      await this.db.executeSql('INSERT OR IGNORE INTO series_tags (series_id, tag_id) VALUES (?, ?)', [
+        seriesId,
+        tag.id,
+      ]);
+    }
+  }
+
+  /**
+   * Cancels a single occurrence of a series without ending it. The series
+   * generator skips exception dates, so the occurrence is not recreated.
+   */
+  async addSeriesExceptionDate(seriesId: string, occurrenceDate: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql(
+      `INSERT OR IGNORE INTO series_exception_dates (series_id, occurrence_date, created_at)
+       VALUES (?, ?, ?)`,
+      [seriesId, occurrenceDate, new Date().toISOString()]
+    );
+  }
+
+  async removeSeriesExceptionDate(seriesId: string, occurrenceDate: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql(
+      'DELETE FROM series_exception_dates WHERE series_id = ? AND occurrence_date = ?',
+      [seriesId, occurrenceDate]
+    );
+  }
+
+  /**
+   * Stores the one-off changes to a single occurrence, replacing any earlier
+   * override of the same occurrence
+   */
+  async saveSeriesOverride(seriesId: string, override: SeriesOverride): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    await this.db.executeSql(
+      `INSERT OR REPLACE INTO series_overrides (
+        series_id, occurrence_date, due_date, due_time, title, description, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, COALESCE(
+        (SELECT created_at FROM series_overrides WHERE series_id = ? AND occurrence_date = ?), ?
+      ), ?)`,
+      [
+        seriesId,
+        override.occurrenceDate,
+        override.dueDate || null,
+        override.dueTime || null,
+        override.title || null,
+        override.description || null,
+        seriesId,
+        override.occurrenceDate,
+        now,
+        now,
+      ]
+    );
+  }
+
+  async deleteSeriesOverride(seriesId: string, occurrenceDate: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql(
+      'DELETE FROM series_overrides WHERE series_id = ? AND occurrence_date = ?',
+      [seriesId, occurrenceDate]
+    );
+  }
+
+  async updateSeries(id: string, updates: Partial<TaskSeries>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      console.log('Updating task series:', id, 'with updates:', updates);
+
+      await this.transaction(async tx => {
+        const db = tx.db!;
+        if (updates.checklist) {
+          await tx.saveSeriesChecklist(id, updates.checklist);
+        }
+        if (updates.tags) {
+          await tx.saveSeriesTags(id, updates.tags);
+        }
+
+        const { fields, values } = this.buildUpdateAssignments(updates);
+
+        if (fields.length === 0) {
+          console.log('No series fields to update');
+          return;
+        }
+
+        values.push(new Date().toISOString(), id);
+
+        await db.executeSql(
+          `UPDATE task_series SET ${fields.join(', ')}, updated_at = ? WHERE id = ?`,
+          values
+        );
+        console.log('Task series updated successfully');
+      });
+    } catch (error) {
+      console.error('Error updating task series:', error);
+      throw new Error(`Failed to update task series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteSeries(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.transaction(async tx => {
+      const db = tx.db!;
+      await db.executeSql(
+        'DELETE FROM task_completions WHERE task_id IN (SELECT id FROM tasks WHERE series_id = ?)',
+        [id]
+      );
+      await db.executeSql(
+        'DELETE FROM subtasks WHERE task_id IN (SELECT id FROM tasks WHERE series_id = ?)',
+        [id]
+      );
+      await db.executeSql(
+        'DELETE FROM task_tags WHERE task_id IN (SELECT id FROM tasks WHERE series_id = ?)',
+        [id]
+      );
+      await db.executeSql(
+        `DELETE FROM task_dependencies
+         WHERE task_id IN (SELECT id FROM tasks WHERE series_id = ?)
+            OR blocked_by_id IN (SELECT id FROM tasks WHERE series_id = ?)`,
+        [id, id]
+      );
+      await db.executeSql('DELETE FROM tasks WHERE series_id = ?', [id]);
+      await db.executeSql('DELETE FROM series_exception_dates WHERE series_id = ?', [id]);
+      await db.executeSql('DELETE FROM series_overrides WHERE series_id = ?', [id]);
+      await db.executeSql('DELETE FROM series_checklist_items WHERE series_id = ?', [id]);
+      await db.executeSql('DELETE FROM series_tags WHERE series_id = ?', [id]);
+      await db.executeSql('DELETE FROM task_series WHERE id = ?', [id]);
+    });
+  }
+
+  async getSeriesInstances(seriesId: string): Promise<Task[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql(
+      'SELECT * FROM tasks WHERE series_id = ? ORDER BY due_date, due_time',
+      [seriesId]
+    );
+    const tasks: Task[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      tasks.push(this.mapTaskRow(result.rows.item(i)));
     }
 
     return tasks;
   }
 
+  /**
+   * Creates a series instance unless the series already has one for the same
+   * occurrence date. Returns null in that case, so generating the same range
+   * twice never creates duplicates.
+   */
+  async createSeriesInstance(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Promise<Task | null> {
+    const [created] = await this.createSeriesInstances([task]);
+    return created ?? null;
+  }
+
+  /**
+   * Creates instances of series in one transaction, skipping any occurrence
+   * that already has an instance. Returns the instances created.
+   */
+  async createSeriesInstances(tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<Task[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.transaction(async tx => {
+      const db = tx.db!;
+      const existing = new Set<string>();
+      for (const seriesId of new Set(tasks.map(task => task.seriesId))) {
+        const [result] = await db.executeSql(
+          'SELECT occurrence_date FROM tasks WHERE series_id = ? AND occurrence_date IS NOT NULL',
+          [seriesId ?? null]
+        );
+        for (let i = 0; i < result.rows.length; i++) {
+          existing.add(`${seriesId}:${result.rows.item(i).occurrence_date}`);
+        }
+      }
+
+      return tx.insertTasks(
+        tasks.filter(task => !existing.has(`${task.seriesId}:${task.occurrenceDate}`))
+      );
+    });
+  }
+
+  /**
+   * Moves every instance, exception date and override for an occurrence on or
+   * after `fromDate` to another series, used when a series is split in two
+   */
+  async moveSeriesInstances(fromSeriesId: string, toSeriesId: string, fromDate: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.executeSql(
+      `UPDATE tasks SET series_id = ?, updated_at = ?
+       WHERE series_id = ? AND COALESCE(occurrence_date, due_date) >= ?`,
+      [toSeriesId, new Date().toISOString(), fromSeriesId, fromDate]
+    );
+    await this.db.executeSql(
+      'UPDATE series_exception_dates SET series_id = ? WHERE series_id = ? AND occurrence_date >= ?',
+      [toSeriesId, fromSeriesId, fromDate]
+    );
+    await this.db.executeSql(
+      'UPDATE series_overrides SET series_id = ? WHERE series_id = ? AND occurrence_date >= ?',
+      [toSeriesId, fromSeriesId, fromDate]
+    );
+  }
+
+  async getCompletedSeriesInstanceIds(seriesId: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql<{ task_id: string }>(
+      `SELECT DISTINCT tc.task_id FROM task_completions tc
+       JOIN tasks t ON t.id = tc.task_id
+       WHERE t.series_id = ?`,
+      [seriesId]
+    );
+    const ids: string[] = [];
+
+    for (let i = 0; i < result.rows.length; i++) {
+      ids.push(result.rows.item(i).task_id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Deletes the series instances for occurrences on or after `fromDate` that
+   * have not been completed, so completion history is never lost when a
+   * series changes
+   */
+  async deleteOpenSeriesInstances(seriesId: string, fromDate: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const openInstances = `
+      SELECT id FROM tasks
+      WHERE series_id = ? AND COALESCE(occurrence_date, due_date) >= ?
+        AND id NOT IN (SELECT task_id FROM task_completions)
+    `;
+
+    await this.db.executeSql(`DELETE FROM subtasks WHERE task_id IN (${openInstances})`, [
+      seriesId,
+      fromDate,
+    ]);
+    await this.db.executeSql(`DELETE FROM task_tags WHERE task_id IN (${openInstances})`, [
+      seriesId,
+      fromDate,
+    ]);
+    await this.db.executeSql(
+      `DELETE FROM task_dependencies
+       WHERE task_id IN (${openInstances}) OR blocked_by_id IN (${openInstances})`,
+      [seriesId, fromDate, seriesId, fromDate]
+    );
+    await this.db.executeSql(`DELETE FROM tasks WHERE id IN (${openInstances})`, [seriesId, fromDate]);
+  }
+
   async createCategory(name: string, color: string, icon?: string): Promise<Category> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const id = Date.now().toString();
-    const query = 'INSERT INTO categories (id, name, color, icon) VALUES (?, ?, ?, ?)';
+    const id = generateId();
+    // New categories go to the end of the list
+    const [result] = await this.db.executeSql<{ position: number }>(
+      'SELECT COALESCE(MAX(position) + 1, 0) as position FROM categories'
+    );
+    const position = result.rows.item(0).position;
+    const query = 'INSERT INTO categories (id, name, color, icon, position) VALUES (?, ?, ?, ?, ?)';
     
-    await this.db.executeSql(query, [id, name, color, icon || null]);
+    await this.db.executeSql(query, [id, name, color, icon || null, position]);
 
-    return { id, name, color, icon };
+    return { id, name, color, icon, position };
   }
 
   async getCategories(): Promise<Category[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const [result] = await this.db.executeSql('SELECT * FROM categories');
+    const [result] = await this.db.executeSql<{
+      id: string;
+      name: string;
+      color: string;
+      icon: string | null;
+      position: number;
+    }>('SELECT * FROM categories ORDER BY position, name');
     const categories: Category[] = [];
 
     for (let i = 0; i < result.rows.length; i++) {
@@ -402,13 +1442,54 @@ class DatabaseService {
         id: row.id,
         name: row.name,
         color: row.color,
-        icon: row.icon,
+        icon: row.icon ?? undefined,
+        position: row.position,
       });
     }
 
     return categories;
   }
 
+  async updateCategory(id: string, updates: Partial<Omit<Category, 'id'>>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { fields, values } = this.buildUpdateAssignments(updates);
+    if (fields.length > 0) {
+      await this.db.executeSql(`UPDATE categories SET ${fields.join(', ')} WHERE id = ?`, [...values, id]);
+    }
+  }
+
+  /**
+   * Deletes a category, moving its tasks and series to `reassignToId`, or
+   * leaving them without a category if it is not given
+   */
+  async deleteCategory(id: string, reassignToId?: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    await this.db.executeSql('UPDATE tasks SET category_id = ?, updated_at = ? WHERE category_id = ?', [
+      reassignToId ?? null,
+      now,
+      id,
+    ]);
+    await this.db.executeSql('UPDATE task_series SET category_id = ?, updated_at = ? WHERE category_id = ?', [
+      reassignToId ?? null,
+      now,
+      id,
+    ]);
+    await this.db.executeSql('DELETE FROM categories WHERE id = ?', [id]);
+  }
+
+  async countCategoryTasks(id: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [result] = await this.db.executeSql<{ count: number }>(
+      'SELECT COUNT(*) as count FROM tasks WHERE category_id = ?',
+      [id]
+    );
+    return result.rows.item(0).count;
+  }
+
   async getTaskWithCompletions(taskId: string): Promise<{ task: Task; completions: TaskCompletion[] } | null> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -417,21 +1498,7 @@ class DatabaseService {
     if (result.rows.length === 0) return null;
 
     const row = result.rows.item(0);
-    const task: Task = {
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      type: row.type,
-      dueDate: row.due_date,
-      dueTime: row.due_time,
-      isRecurring: row.is_recurring === 1,
-      recurrencePattern: row.recurrence_pattern,
-      recurrenceInterval: row.recurrence_interval,
-      priority: row.priority,
-      categoryId: row.category_id,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
+    const task = this.mapTaskRow(row);
 
     const completions = await this.getCompletions(taskId);
     return { task, completions };
@@ -443,49 +1510,33 @@ class DatabaseService {
   ): Promise<{ tasks: Task[]; completions: TaskCompletion[] }> {
     if (!this.db) throw new Error('Database not initialized');
 
-    // Get all completions in the date range
+    // Get all completions in the local date range
+    const { start, end } = getLocalDayRange(startDate, endDate);
     const completionsQuery = `
       SELECT * FROM task_completions 
-      WHERE date(completed_at) BETWEEN date(?) AND date(?)
+      WHERE completed_at >= ? AND completed_at < ?
       ORDER BY completed_at DESC
     `;
     
-    const [completionsResult] = await this.db.executeSql(completionsQuery, [startDate, endDate]);
+    const [completionsResult] = await this.db.executeSql(completionsQuery, [start, end]);
     const completions: TaskCompletion[] = [];
 
     for (let i = 0; i < completionsResult.rows.length; i++) {
       const row = completionsResult.rows.item(i);
-      completions.push({
-        id: row.id,
-        taskId: row.task_id,
-        completedAt: row.completed_at,
-        notes: row.notes,
-      });
+      completions.push(this.mapCompletionRow(row));
     }
 
     // Get all tasks that were completed in this date range
     const taskIds = [...new Set(completions.map(c => c.taskId))];
     const tasks: Task[] = [];
 
-    for (const taskId of taskIds) {
-      const [result] = await this.db.executeSql('SELECT * FROM tasks WHERE id = ?', [taskId]);
-      if (result.rows.length > 0) {
-        const row = result.rows.item(0);
-        tasks.push({
-          id: row.id,
-          title: row.title,
-          description: row.description,
-          type: row.type,
-          dueDate: row.due_date,
-          dueTime: row.due_time,
-          isRecurring: row.is_recurring === 1,
-          recurrencePattern: row.recurrence_pattern,
-          recurrenceInterval: row.recurrence_interval,
-          priority: row.priority,
-          categoryId: row.category_id,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at,
-        });
+    for (const ids of chunk(taskIds)) {
+      const [result] = await this.db.executeSql(
+        `SELECT * FROM tasks WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        ids
+      );
+      for (let i = 0; i < result.rows.length; i++) {
+        tasks.push(this.mapTaskRow(result.rows.item(i)));
       }
     }
 
@@ -498,14 +1549,9 @@ class DatabaseService {
   }> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    const endDate = getDateString(new Date());
 
-    return this.getCompletionAnalyticsForDateRange(
-      startDate.toISOString().split('T')[0],
-      endDate.toISOString().split('T')[0]
-    );
+    return this.getCompletionAnalyticsForDateRange(addDays(endDate, -days), endDate);
   }
 
   async resetDatabase(): Promise<void> {
@@ -517,10 +1563,32 @@ class DatabaseService {
       // Delete all data from tables in reverse order of dependencies
       await this.db.executeSql('DELETE FROM task_completions');
       console.log('Database: Cleared task_completions table');
+
+      await this.db.executeSql('DELETE FROM subtasks');
+      await this.db.executeSql('DELETE FROM series_checklist_items');
+      console.log('Database: Cleared checklists');
+
+      await this.db.executeSql('DELETE FROM task_tags');
+      await this.db.executeSql('DELETE FROM series_tags');
+      await this.db.executeSql('DELETE FROM tags');
+      console.log('Database: Cleared tags');
+
+      await this.db.executeSql('DELETE FROM task_dependencies');
+      console.log('Database: Cleared task_dependencies table');
+
+      await this.db.executeSql('DELETE FROM series_exception_dates');
+      await this.db.executeSql('DELETE FROM series_overrides');
+      console.log('Database: Cleared series exceptions and overrides');
+
+      await this.db.executeSql('DELETE FROM task_search');
+      console.log('Database: Cleared search index');
       
       await this.db.executeSql('DELETE FROM tasks');
       console.log('Database: Cleared tasks table');
       
+      await this.db.executeSql('DELETE FROM task_series');
+      console.log('Database: Cleared task_series table');
+      
       await this.db.executeSql('DELETE FROM categories');
       console.log('Database: Cleared categories table');
       
@@ -539,13 +1607,24 @@ class DatabaseService {
       
       // Drop all tables
       await this.db.executeSql('DROP TABLE IF EXISTS task_completions');
+      await this.db.executeSql('DROP TABLE IF EXISTS subtasks');
+      await this.db.executeSql('DROP TABLE IF EXISTS series_checklist_items');
+      await this.db.executeSql('DROP TABLE IF EXISTS task_tags');
+      await this.db.executeSql('DROP TABLE IF EXISTS series_tags');
+      await this.db.executeSql('DROP TABLE IF EXISTS tags');
+      await this.db.executeSql('DROP TABLE IF EXISTS task_dependencies');
+      await this.db.executeSql('DROP TABLE IF EXISTS series_exception_dates');
+      await this.db.executeSql('DROP TABLE IF EXISTS series_overrides');
+      await this.db.executeSql('DROP TABLE IF EXISTS task_search');
       await this.db.executeSql('DROP TABLE IF EXISTS tasks');
+      await this.db.executeSql('DROP TABLE IF EXISTS task_series');
       await this.db.executeSql('DROP TABLE IF EXISTS categories');
+      await this.db.executeSql('DROP TABLE IF EXISTS schema_version');
       
       console.log('Database: All tables dropped');
       
-      // Recreate tables
-      await this.createTables();
+      // Recreate tables by replaying every migration
+      await this.migrate();
       
       console.log('Database: Database recreation completed successfully');
     } catch (error) {
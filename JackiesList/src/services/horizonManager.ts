@@ -0,0 +1,139 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import database, { DatabaseService } from './database';
+import { getSettings } from './settingsService';
+import { Task, TaskSeries } from '../types';
+import { addDays, getDateString } from '../utils/date';
+import { createSeriesInstance, getNextSeriesDate, getSeriesOccurrenceDates } from '../utils/recurrence';
+
+/**
+ * Keeps every recurring series materialized as task instances up to a rolling
+ * horizon: today plus the configured generation window. Runs at app start and
+ * whenever the app comes back to the foreground.
+ */
+class HorizonManager {
+  private currentRun: Promise<Task[]> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Extends every series now and again each time the app returns to the
+   * foreground. Resolves once the first run has finished.
+   */
+  start(): Promise<Task[]> {
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+    return this.extendAllSeries();
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.extendAllSeries();
+    }
+  };
+
+  /**
+   * The last date instances should exist for: the end of the generation
+   * window, or the series' own end date if that comes first. The next due
+   * date of a completion-based series is always inside the window.
+   */
+  async getGenerationEnd(series: TaskSeries): Promise<string> {
+    const settings = await getSettings();
+    let horizonEnd = addDays(getDateString(new Date()), settings.recurringTaskGenerationDays);
+    if (series.recurrenceMode === 'completion' && series.startDate > horizonEnd) {
+      horizonEnd = series.startDate;
+    }
+    return series.untilDate && series.untilDate < horizonEnd ? series.untilDate : horizonEnd;
+  }
+
+  /**
+   * Extends every series up to the horizon and returns the instances that
+   * were created. Calls made while a run is in progress share that run.
+   */
+  extendAllSeries(): Promise<Task[]> {
+    if (!this.currentRun) {
+      this.currentRun = this.runExtension().finally(() => {
+        this.currentRun = null;
+      });
+    }
+    return this.currentRun;
+  }
+
+  private async runExtension(): Promise<Task[]> {
+    if (!database.isReady()) {
+      console.log('HorizonManager: Database not ready, skipping');
+      return [];
+    }
+
+    try {
+      const created: Task[] = [];
+
+      for (const series of await database.getSeries()) {
+        try {
+          created.push(...(await this.extendSeries(series)));
+        } catch (error) {
+          // One broken series should not stop the others from being extended
+          console.error(`HorizonManager: Error extending series ${series.id}:`, error);
+        }
+      }
+
+      console.log(`HorizonManager: Created ${created.length} recurring instances`);
+      return created;
+    } catch (error) {
+      console.error('HorizonManager: Error extending series:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Creates the instances of a series between the date it has been generated
+   * through and the horizon, then records the new generated-through date.
+   * Dates that already have an instance are skipped, so this is safe to repeat.
+   * The series is read again first, so an edit made since `series` was read
+   * is not undone. Pass `db` to create them inside a transaction already
+   * open on it.
+   */
+  async extendSeries(series: TaskSeries, db: DatabaseService = database): Promise<Task[]> {
+    return db.transaction(async tx => {
+      let [current] = await tx.getSeries(series.id);
+      if (!current) {
+        return [];
+      }
+
+      if (current.recurrenceMode === 'completion' && current.exceptionDates?.includes(current.startDate)) {
+        // Its pending occurrence was deleted, so the series moves on to the next one
+        const nextDate = getNextSeriesDate(current, current.startDate);
+        if (!nextDate) {
+          return [];
+        }
+        current = { ...current, startDate: nextDate };
+        await tx.updateSeries(current.id, { startDate: nextDate });
+      }
+
+      const endDate = await this.getGenerationEnd(current);
+      // A completion-based series only ever needs its next due date, which
+      // moves with every completion
+      const fromDate =
+        current.generatedThrough && current.recurrenceMode !== 'completion'
+          ? addDays(current.generatedThrough, 1)
+          : current.startDate;
+
+      if (fromDate > endDate) {
+        return [];
+      }
+
+      const created = await tx.createSeriesInstances(
+        getSeriesOccurrenceDates(current, fromDate, endDate).map(date => createSeriesInstance(current, date))
+      );
+
+      await tx.updateSeries(current.id, { generatedThrough: endDate });
+      return created;
+    });
+  }
+}
+
+export default new HorizonManager();
@@ -0,0 +1,433 @@
+/**
+ * Versioned schema migrations for the app database.
+ *
+ * Each migration is applied exactly once, in order, inside its own
+ * transaction. The highest applied version is recorded in `schema_version`,
+ * so devices that already have `JackiesList.db` only run the steps they are
+ * missing. New schema changes must be added as a new migration at the end of
+ * the list - never edit a migration that has already shipped.
+ */
+
+import { StorageAdapter } from './storage';
+
+export type SqlExecutor = Pick<StorageAdapter, 'executeSql'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  statements: string[];
+  // Applied instead if `statements` fail, e.g. on SQLite builds without FTS5
+  fallbackStatements?: string[];
+}
+
+// The completion notes of a task, one per line
+const taskNotes = (taskId: string) => `
+  SELECT COALESCE(group_concat(notes, char(10)), '') FROM task_completions
+  WHERE task_id = ${taskId} AND notes IS NOT NULL AND notes != ''
+`;
+
+// Keep `task_search` in step with tasks and their completion notes
+const taskSearchStatements = [
+  `INSERT INTO task_search (task_id, title, description, notes)
+   SELECT id, title, COALESCE(description, ''), (${taskNotes('tasks.id')}) FROM tasks`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_task_insert AFTER INSERT ON tasks BEGIN
+     INSERT INTO task_search (task_id, title, description, notes)
+     VALUES (new.id, new.title, COALESCE(new.description, ''), '');
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_task_update AFTER UPDATE OF title, description ON tasks BEGIN
+     UPDATE task_search SET title = new.title, description = COALESCE(new.description, '')
+     WHERE task_id = new.id;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_task_delete AFTER DELETE ON tasks BEGIN
+     DELETE FROM task_search WHERE task_id = old.id;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_completion_insert AFTER INSERT ON task_completions BEGIN
+     UPDATE task_search SET notes = (${taskNotes('new.task_id')}) WHERE task_id = new.task_id;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_completion_update AFTER UPDATE OF notes ON task_completions BEGIN
+     UPDATE task_search SET notes = (${taskNotes('new.task_id')}) WHERE task_id = new.task_id;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS task_search_completion_delete AFTER DELETE ON task_completions BEGIN
+     UPDATE task_search SET notes = (${taskNotes('old.task_id')}) WHERE task_id = old.task_id;
+   END`,
+];
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema: categories, tasks and task completions',
+    // Uses IF NOT EXISTS so databases created before migrations existed
+    // (which already have these tables) are adopted without changes
+    statements: [
+      `CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL,
+        icon TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        type TEXT NOT NULL,
+        due_date TEXT NOT NULL,
+        due_time TEXT,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        recurrence_pattern TEXT,
+        recurrence_interval INTEGER,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        category_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (category_id) REFERENCES categories(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS task_completions (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        completed_at TEXT NOT NULL,
+        notes TEXT,
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    description: 'Recurring task series linked to their generated instances',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS task_series (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        type TEXT NOT NULL,
+        due_time TEXT,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        category_id TEXT,
+        recurrence_pattern TEXT NOT NULL,
+        recurrence_interval INTEGER,
+        start_date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (category_id) REFERENCES categories(id)
+      )`,
+      'ALTER TABLE tasks ADD COLUMN series_id TEXT REFERENCES task_series(id)',
+      // Promote legacy recurring "parent" rows to series, keeping their ids
+      `INSERT INTO task_series (
+        id, title, description, type, due_time, priority, category_id,
+        recurrence_pattern, recurrence_interval, start_date, created_at, updated_at
+      )
+      SELECT
+        id, title, description, type, due_time, priority, category_id,
+        recurrence_pattern, recurrence_interval, due_date, created_at, updated_at
+      FROM tasks
+      WHERE is_recurring = 1 AND recurrence_pattern IS NOT NULL`,
+      // Legacy instances were only associated by title and type, so link them
+      // the same way one last time
+      `UPDATE tasks SET series_id = (
+        SELECT s.id FROM task_series s
+        WHERE s.title = tasks.title
+          AND s.type = tasks.type
+          AND s.start_date <= tasks.due_date
+        ORDER BY s.start_date DESC
+        LIMIT 1
+      )
+      WHERE series_id IS NULL`,
+      // Parents are now ordinary instances of their own series
+      'UPDATE tasks SET is_recurring = 0 WHERE series_id IS NOT NULL',
+    ],
+  },
+  {
+    version: 3,
+    description: 'End date for recurring series',
+    statements: ['ALTER TABLE task_series ADD COLUMN until_date TEXT'],
+  },
+  {
+    version: 4,
+    description: 'RRULE recurrence rules',
+    statements: [
+      'ALTER TABLE task_series ADD COLUMN rrule TEXT',
+      'ALTER TABLE tasks ADD COLUMN rrule TEXT',
+    ],
+  },
+  {
+    version: 5,
+    description: 'Occurrence dates and generation horizon for recurring series',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN occurrence_date TEXT',
+      'ALTER TABLE task_series ADD COLUMN generated_through TEXT',
+      // Every existing instance still sits on the date it was generated for
+      'UPDATE tasks SET occurrence_date = due_date WHERE series_id IS NOT NULL',
+      // Legacy data can hold duplicate instances; only the first keeps the slot
+      `UPDATE tasks SET occurrence_date = NULL
+      WHERE series_id IS NOT NULL AND rowid NOT IN (
+        SELECT MIN(rowid) FROM tasks WHERE series_id IS NOT NULL GROUP BY series_id, due_date
+      )`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_series_occurrence ON tasks(series_id, occurrence_date)',
+      `UPDATE task_series SET generated_through = (
+        SELECT MAX(occurrence_date) FROM tasks WHERE tasks.series_id = task_series.id
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'Completion-based recurrence mode',
+    statements: [
+      "ALTER TABLE task_series ADD COLUMN recurrence_mode TEXT NOT NULL DEFAULT 'schedule'",
+      'ALTER TABLE tasks ADD COLUMN recurrence_mode TEXT',
+    ],
+  },
+  {
+    version: 7,
+    description: 'Skipped occurrences and the original due date of moved tasks',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN skipped_at TEXT',
+      'ALTER TABLE tasks ADD COLUMN original_due_date TEXT',
+      'ALTER TABLE tasks ADD COLUMN original_due_time TEXT',
+    ],
+  },
+  {
+    version: 8,
+    description: 'Occurrence count end condition for recurring series',
+    statements: [
+      'ALTER TABLE task_series ADD COLUMN occurrence_count INTEGER',
+      'ALTER TABLE tasks ADD COLUMN recurrence_until TEXT',
+      'ALTER TABLE tasks ADD COLUMN recurrence_count INTEGER',
+    ],
+  },
+  {
+    version: 9,
+    description: 'Exception dates and per-occurrence overrides for recurring series',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS series_exception_dates (
+        series_id TEXT NOT NULL,
+        occurrence_date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (series_id, occurrence_date),
+        FOREIGN KEY (series_id) REFERENCES task_series(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS series_overrides (
+        series_id TEXT NOT NULL,
+        occurrence_date TEXT NOT NULL,
+        due_date TEXT,
+        due_time TEXT,
+        title TEXT,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (series_id, occurrence_date),
+        FOREIGN KEY (series_id) REFERENCES task_series(id)
+      )`,
+    ],
+  },
+  {
+    version: 10,
+    description: 'Fixed time zones for tasks and series',
+    statements: [
+      'ALTER TABLE tasks ADD COLUMN time_zone TEXT',
+      'ALTER TABLE task_series ADD COLUMN time_zone TEXT',
+    ],
+  },
+  {
+    version: 11,
+    description: 'Values and photos recorded with completions',
+    statements: [
+      'ALTER TABLE task_completions ADD COLUMN value REAL',
+      'ALTER TABLE task_completions ADD COLUMN photo_path TEXT',
+    ],
+  },
+  {
+    version: 12,
+    description: 'Checklists of subtasks and series checklist templates',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS subtasks (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        completed_at TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_subtasks_task ON subtasks(task_id, position)',
+      `CREATE TABLE IF NOT EXISTS series_checklist_items (
+        series_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        PRIMARY KEY (series_id, position),
+        FOREIGN KEY (series_id) REFERENCES task_series(id)
+      )`,
+      'ALTER TABLE tasks ADD COLUMN auto_complete_checklist INTEGER DEFAULT 0',
+      'ALTER TABLE task_series ADD COLUMN auto_complete_checklist INTEGER DEFAULT 0',
+    ],
+  },
+  {
+    version: 13,
+    description: 'Tasks blocked by other tasks',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS task_dependencies (
+        task_id TEXT NOT NULL,
+        blocked_by_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (task_id, blocked_by_id),
+        FOREIGN KEY (task_id) REFERENCES tasks(id),
+        FOREIGN KEY (blocked_by_id) REFERENCES tasks(id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_id)',
+    ],
+  },
+  {
+    version: 14,
+    description: 'User-defined order of categories',
+    statements: [
+      'ALTER TABLE categories ADD COLUMN position INTEGER NOT NULL DEFAULT 0',
+      // Existing categories keep the order they were created in
+      'UPDATE categories SET position = (SELECT COUNT(*) FROM categories c WHERE c.rowid < categories.rowid)',
+    ],
+  },
+  {
+    version: 15,
+    description: 'Tags on tasks and series',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS task_tags (
+        task_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        PRIMARY KEY (task_id, tag_id),
+        FOREIGN KEY (task_id) REFERENCES tasks(id),
+        FOREIGN KEY (tag_id) REFERENCES tags(id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags(tag_id)',
+      `CREATE TABLE IF NOT EXISTS series_tags (
+        series_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        PRIMARY KEY (series_id, tag_id),
+        FOREIGN KEY (series_id) REFERENCES task_series(id),
+        FOREIGN KEY (tag_id) REFERENCES tags(id)
+      )`,
+    ],
+  },
+  {
+    version: 16,
+    description: 'Full-text search over tasks and completion notes',
+    statements: [
+      'CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts5(task_id UNINDEXED, title, description, notes)',
+      ...taskSearchStatements,
+    ],
+    // Android's system SQLite is built without FTS5; FTS4 takes the same queries
+    fallbackStatements: [
+      'CREATE VIRTUAL TABLE IF NOT EXISTS task_search USING fts4(task_id, title, description, notes, notindexed=task_id)',
+      ...taskSearchStatements,
+    ],
+  },
+  {
+    version: 17,
+    description: 'Indexes for date range and completion lookups',
+    statements: [
+      'CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date, due_time)',
+      'CREATE INDEX IF NOT EXISTS idx_task_completions_task ON task_completions(task_id, completed_at)',
+    ],
+  },
+  {
+    version: 18,
+    description: 'Indexes for category and completion date lookups',
+    statements: [
+      'CREATE INDEX IF NOT EXISTS idx_tasks_category ON tasks(category_id)',
+      'CREATE INDEX IF NOT EXISTS idx_task_completions_completed_at ON task_completions(completed_at)',
+    ],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+const ensureSchemaVersionTable = async (db: SqlExecutor): Promise<void> => {
+  await db.executeSql(
+    `CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  );
+};
+
+const applyStatements = async (db: SqlExecutor, statements: string[]): Promise<void> => {
+  for (const statement of statements) {
+    await db.executeSql(statement);
+  }
+};
+
+/**
+ * Returns the highest migration version applied to the database (0 if none)
+ */
+export const getSchemaVersion = async (db: SqlExecutor): Promise<number> => {
+  await ensureSchemaVersionTable(db);
+  const [result] = await db.executeSql<{ version: number | null }>(
+    'SELECT MAX(version) as version FROM schema_version'
+  );
+  const version = result.rows.length > 0 ? result.rows.item(0).version : null;
+  return version ?? 0;
+};
+
+/**
+ * Applies every pending migration in order and returns the resulting version.
+ * A failing migration is rolled back and the error is rethrown, leaving the
+ * database at the last successfully applied version.
+ */
+export const runMigrations = async (
+  db: SqlExecutor,
+  steps: Migration[] = migrations
+): Promise<number> => {
+  let currentVersion = await getSchemaVersion(db);
+  const pending = steps
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    console.log(`Migrations: Schema is up to date (version ${currentVersion})`);
+    return currentVersion;
+  }
+
+  for (const migration of pending) {
+    console.log(`Migrations: Applying version ${migration.version} - ${migration.description}`);
+    await db.executeSql('BEGIN TRANSACTION');
+
+    try {
+      try {
+        await applyStatements(db, migration.statements);
+      } catch (error) {
+        if (!migration.fallbackStatements) {
+          throw error;
+        }
+
+        console.log(`Migrations: Version ${migration.version} falling back:`, error);
+        await db.executeSql('ROLLBACK');
+        await db.executeSql('BEGIN TRANSACTION');
+        await applyStatements(db, migration.fallbackStatements);
+      }
+
+      await db.executeSql(
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.description, new Date().toISOString()]
+      );
+      await db.executeSql('COMMIT');
+    } catch (error) {
+      try {
+        await db.executeSql('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('Migrations: Rollback failed:', rollbackError);
+      }
+
+      console.error(`Migrations: Version ${migration.version} failed:`, error);
+      throw new Error(
+        `Migration ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    currentVersion = migration.version;
+  }
+
+  console.log(`Migrations: Schema migrated to version ${currentVersion}`);
+  return currentVersion;
+};
@@ -1,7 +1,7 @@
 import PushNotification from 'react-native-push-notification';
 import { Platform } from 'react-native';
-import { Task } from '../types';
-import { formatTime, isToday, isTomorrow } from '../utils/date';
+import { Task, SeriesChangeResult } from '../types';
+import { formatDueTime, isToday, isTomorrow, isPastDue, parseLocalDate } from '../utils/date';
 import taskService from './taskService';
 
 class NotificationService {
@@ -44,9 +44,7 @@ class NotificationService {
   scheduleTaskNotification(task: Task) {
     if (!task.dueTime) return;
 
-    const [hours, minutes] = task.dueTime.split(':');
-    const notificationDate = new Date(task.dueDate);
-    notificationDate.setHours(parseInt(hours, 10), parseInt(minutes, 10));
+    const notificationDate = parseLocalDate(task.dueDate, task.dueTime, task.timeZone);
 
     const notificationTime = notificationDate.getTime() - 15 * 60 * 1000;
 
@@ -54,7 +52,7 @@ class NotificationService {
       id: task.id,
       channelId: 'jackies-list-channel',
       title: `Upcoming ${task.type}: ${task.title}`,
-      message: task.description || `Due at ${formatTime(task.dueTime)}`,
+      message: task.description || `Due at ${formatDueTime(task.dueDate, task.dueTime, task.timeZone)}`,
       date: new Date(notificationTime),
       allowWhileIdle: true,
       repeatType: task.isRecurring ? 'time' : undefined,
@@ -91,6 +89,21 @@ class NotificationService {
     PushNotification.cancelLocalNotification(taskId);
   }
 
+  /**
+   * Brings scheduled reminders in line with a series edit or delete: removed
+   * tasks lose their reminder and changed tasks get a fresh one
+   */
+  rescheduleTaskNotifications({ updatedTasks, removedTaskIds }: SeriesChangeResult) {
+    removedTaskIds.forEach(taskId => this.cancelTaskNotification(taskId));
+
+    updatedTasks.forEach(task => {
+      this.cancelTaskNotification(task.id);
+      if (task.dueTime && !isPastDue(task.dueDate, task.dueTime, task.timeZone)) {
+        this.scheduleTaskNotification(task);
+      }
+    });
+  }
+
   async scheduleMorningNotification() {
     const todayTasks = await taskService.getTodayTasks();
     const taskCount = todayTasks.length;
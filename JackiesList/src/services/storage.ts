@@ -0,0 +1,80 @@
+import SQLite from 'react-native-sqlite-storage';
+
+// Enable promise support for SQLite
+SQLite.enablePromise(true);
+SQLite.DEBUG(true); // Enable debug logging
+
+// A value SQLite stores, as it is bound to a statement or read back from it
+export type SqlValue = string | number | null;
+
+// A result row keyed by column name
+export type SqlRow = Record<string, SqlValue>;
+
+// The result of a statement, in the shape of react-native-sqlite-storage
+export interface SqlResultSet<Row extends SqlRow = SqlRow> {
+  rows: {
+    length: number;
+    item(index: number): Row;
+    raw(): Row[];
+  };
+  rowsAffected: number;
+  insertId?: number;
+}
+
+/**
+ * The SQLite connection `DatabaseService` runs its SQL on. The app uses the
+ * device database; tests pass an in-memory one.
+ */
+export interface StorageAdapter {
+  // `Row` names the columns the statement returns
+  executeSql<Row extends SqlRow = SqlRow>(statement: string, params?: SqlValue[]): Promise<[SqlResultSet<Row>]>;
+  // Runs `work` in a transaction, committing once it resolves and rolling back if it throws
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * Runs `work` between BEGIN and COMMIT statements, for connections that have
+ * no transaction API that can wait on promises
+ */
+export const runTransaction = async <T>(
+  executeSql: StorageAdapter['executeSql'],
+  work: () => Promise<T>
+): Promise<T> => {
+  await executeSql('BEGIN TRANSACTION');
+
+  try {
+    const result = await work();
+    await executeSql('COMMIT');
+    return result;
+  } catch (error) {
+    try {
+      await executeSql('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Storage: Rollback failed:', rollbackError);
+    }
+    throw error;
+  }
+};
+
+export const openDeviceStorage = async (): Promise<StorageAdapter> => {
+  const db = await SQLite.openDatabase({
+    name: 'JackiesList.db',
+    location: 'default',
+    createFromLocation: undefined,
+    readOnly: false,
+  });
+
+  const executeSql: StorageAdapter['executeSql'] = async (statement, params) => {
+    const [result] = await db.executeSql(statement, params);
+    return [result];
+  };
+
+  return {
+    executeSql,
+    transaction: work => runTransaction(executeSql, work),
+    close: async () => {
+      await db.close();
+    },
+  };
+};
@@ -1,47 +1,116 @@
-import database from './database';
-import { Task, TaskCompletion, DashboardMetrics } from '../types';
-import { 
-  getNextRecurrenceDate, 
-  shouldCreateNextRecurrence, 
-  createRecurringTaskInstance 
+import database, { DatabaseService } from './database';
+import {
+  Task,
+  TaskCompletion,
+  CompletionDetails,
+  CompletionSummary,
+  TaskSeries,
+  SeriesEditScope,
+  SeriesChangeResult,
+  SeriesOverride,
+  OccurrencePosition,
+  SnoozeOption,
+  Subtask,
+  ChecklistProgress,
+  Category,
+  Tag,
+  SearchFilters,
+  SearchResult,
+  DashboardMetrics,
+} from '../types';
+import {
+  createSeriesInstance,
+  getNextSeriesDate,
+  getSeriesOccurrenceDates,
+  getSeriesOccurrencePosition,
 } from '../utils/recurrence';
-import { getDateString, isToday } from '../utils/date';
+import { getDateString, isToday, addDays, getDaysBetween, getSnoozedDueDate } from '../utils/date';
 import { 
   analyzeTaskCompletion, 
   analyzeCompletionStats,
   getLateCompletionDescription,
   isSignificantlyLate,
+  summarizeCompletionValues,
   type TaskCompletionAnalytics,
   type CompletionStats
 } from '../utils/completionAnalytics';
-import { getSettings } from './settingsService';
+import { buildMatchQuery, getSearchTerms, matchesSearchTerms } from '../utils/search';
+import horizonManager from './horizonManager';
+import { StorageAdapter } from './storage';
+
+// The series date an instance stands for, wherever it has been moved to
+const getOccurrenceDate = (task: Task): string => task.occurrenceDate ?? task.dueDate;
+
+// Trimmed tag names without blanks or duplicates, which differ only in case
+const normalizeTagNames = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  return names
+    .map(name => name.trim())
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+export class TaskService {
+  private database: DatabaseService;
+
+  // The app shares one database; pass another to keep a service's tasks apart
+  constructor(db: DatabaseService = database) {
+    this.database = db;
+  }
+
+  /**
+   * Opens the task database on `storage`, or on the device database if none
+   * is given. Tests pass an in-memory database here.
+   */
+  async init(storage?: StorageAdapter): Promise<void> {
+    await this.database.init(storage);
+  }
 
-class TaskService {
   private async ensureDatabaseReady(): Promise<void> {
-    if (!database.isReady()) {
+    if (!this.database.isReady()) {
       console.log('Database not ready, waiting for initialization...');
       // Wait a bit and check again
       let attempts = 0;
       const maxAttempts = 10;
-      while (!database.isReady() && attempts < maxAttempts) {
+      while (!this.database.isReady() && attempts < maxAttempts) {
         await new Promise(resolve => setTimeout(resolve, 100));
         attempts++;
       }
-      if (!database.isReady()) {
+      if (!this.database.isReady()) {
         throw new Error('Database is not ready after waiting. Please restart the app.');
       }
     }
   }
 
-  async createTask(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Promise<Task> {
+  /**
+   * Creates a task with a checklist of the given item titles and the given
+   * tags. A recurring task becomes a series whose instances each get a copy
+   * of the checklist and the tags.
+   */
+  async createTask(
+    task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+    checklist: string[] = [],
+    tags: string[] = []
+  ): Promise<Task> {
     await this.ensureDatabaseReady();
     try {
       // If it's a recurring task, we'll create instances instead of a parent recurring task
       if (task.isRecurring && task.recurrencePattern) {
-        return await this.createRecurringTaskWithInstances(task);
+        return await this.createRecurringTaskWithInstances(task, checklist, tags);
       } else {
         // For non-recurring tasks, create normally
-        return await database.createTask(task);
+        return await this.database.transaction(async tx => {
+          const created = await tx.createTask(task);
+          await this.saveChecklist(tx, created.id, checklist);
+          await this.saveTags(tx, created.id, tags);
+          return created;
+        });
       }
     } catch (error) {
       console.error('Error creating task:', error);
@@ -54,7 +123,7 @@ class TaskService {
     try {
       const today = getDateString(new Date());
       console.log('Getting today tasks for date:', today);
-      return await database.getTasks(today);
+      return await this.database.getTasks(today);
     } catch (error) {
       console.error('Error getting today tasks:', error);
       throw new Error(`Failed to get today's tasks: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -64,58 +133,267 @@ class TaskService {
   async getTasks(date?: string): Promise<Task[]> {
     await this.ensureDatabaseReady();
     try {
-      return await database.getTasks(date);
+      return await this.database.getTasks(date);
     } catch (error) {
       console.error('Error getting tasks:', error);
       throw new Error(`Failed to get tasks: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Tasks due between two dates (inclusive), grouped by due date. Dates
+   * without tasks are left out.
+   */
+  async getTasksInRange(startDate: string, endDate: string): Promise<Map<string, Task[]>> {
+    await this.ensureDatabaseReady();
+    return this.database.getTasksInRange(startDate, endDate);
+  }
+
   async getUpcomingTasks(days: number = 7): Promise<Task[]> {
-    const tasks: Task[] = [];
-    const startDate = new Date();
-    
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      const dateTasks = await database.getTasks(getDateString(date));
-      tasks.push(...dateTasks);
+    const today = getDateString(new Date());
+    const tasksByDate = await this.database.getTasksInRange(today, addDays(today, days - 1));
+    return [...tasksByDate.values()].flat();
+  }
+
+  /**
+   * Records a completion, with any notes, value or photo captured for it. For
+   * an instance of a completion-based series this also creates the next
+   * instance, which is returned.
+   */
+  async completeTask(taskId: string, details?: CompletionDetails): Promise<Task | null> {
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+    if (details?.value !== undefined && !Number.isFinite(details.value)) {
+      throw new Error('Invalid completion value');
     }
-    
-    return tasks;
+
+    return this.database.transaction(async tx => {
+      const completionState = await tx.getCompletionState([taskId]);
+      if (completionState.has(taskId)) {
+        throw new Error('Task is already completed');
+      }
+
+      const completion = await tx.completeTask(taskId, details);
+
+      // Scheduled series are pre-generated by the horizon manager
+      const [series] = task.seriesId ? await tx.getSeries(task.seriesId) : [];
+      if (!series || series.recurrenceMode !== 'completion') {
+        return null;
+      }
+
+      return this.scheduleNextAfterCompletion(tx, series, new Date(completion.completedAt));
+    });
+  }
+
+  /**
+   * Moves a completion-based series on to its next due date, counted from
+   * the day it was completed, and creates the instance for it
+   */
+  private async scheduleNextAfterCompletion(
+    tx: DatabaseService,
+    series: TaskSeries,
+    completedAt: Date
+  ): Promise<Task | null> {
+    const nextDate = getNextSeriesDate(series, getDateString(completedAt));
+
+    if (!nextDate) {
+      console.log(`Series ${series.id} has no interval to count from the completion`);
+      return null;
+    }
+    if (series.untilDate && nextDate > series.untilDate) {
+      console.log(`Series ${series.id} has ended`);
+      return null;
+    }
+
+    if (series.occurrenceCount) {
+      const instances = await tx.getSeriesInstances(series.id);
+      if (instances.length >= series.occurrenceCount) {
+        console.log(`Series ${series.id} has reached its ${series.occurrenceCount} occurrences`);
+        return null;
+      }
+    }
+
+    const nextSeries = { ...series, startDate: nextDate };
+    await tx.updateSeries(series.id, { startDate: nextDate });
+    return tx.createSeriesInstance(createSeriesInstance(nextSeries, nextDate));
   }
 
-  async completeTask(taskId: string, notes?: string): Promise<void> {
+  /**
+   * Removes a task's completion. Undoing the latest completion of a
+   * completion-based series also takes back the instance it scheduled, whose
+   * id is returned so its notification can be cancelled.
+   */
+  async uncompleteTask(taskId: string): Promise<string | null> {
     const task = await this.getTaskById(taskId);
     if (!task) throw new Error('Task not found');
 
-    // Check if task is already completed today
-    const isAlreadyCompleted = await database.isTaskCompletedToday(taskId);
-    if (isAlreadyCompleted) {
-      throw new Error('Task is already completed today');
+    const series = task.seriesId ? await this.getSeries(task.seriesId) : null;
+
+    return this.database.transaction(async tx => {
+      await tx.deleteCompletions(taskId);
+
+      const occurrenceDate = getOccurrenceDate(task);
+      if (!series || series.recurrenceMode !== 'completion' || series.startDate <= occurrenceDate) {
+        return null;
+      }
+
+      const next = (await tx.getSeriesInstances(series.id)).find(
+        instance => getOccurrenceDate(instance) === series.startDate
+      );
+      if (next && (await tx.getCompletionState([next.id])).has(next.id)) {
+        // The series has moved on since; only its latest completion can be undone this way
+        return null;
+      }
+
+      await tx.updateSeries(series.id, { startDate: occurrenceDate });
+      if (!next) {
+        return null;
+      }
+      await tx.deleteTask(next.id);
+      return next.id;
+    });
+  }
+
+  /**
+   * Corrects when a completion happened, or what was recorded with it.
+   * Lateness is always derived from the stored time, so analytics follow the
+   * edit.
+   */
+  async updateCompletion(
+    completionId: string,
+    updates: CompletionDetails & { completedAt?: string }
+  ): Promise<TaskCompletion> {
+    const fields: Partial<TaskCompletion> = {};
+
+    if (updates.completedAt !== undefined) {
+      const completedAt = new Date(updates.completedAt);
+      if (isNaN(completedAt.getTime())) {
+        throw new Error('Invalid completion time');
+      }
+      if (completedAt.getTime() > Date.now()) {
+        throw new Error('Completion time cannot be in the future');
+      }
+      fields.completedAt = completedAt.toISOString();
+    }
+    if ('notes' in updates) {
+      fields.notes = updates.notes || undefined;
+    }
+    if ('value' in updates) {
+      if (updates.value !== undefined && !Number.isFinite(updates.value)) {
+        throw new Error('Invalid completion value');
+      }
+      fields.value = updates.value;
+    }
+    if ('photoPath' in updates) {
+      fields.photoPath = updates.photoPath || undefined;
     }
 
-    await database.completeTask(taskId, notes);
+    const completion = await this.database.updateCompletion(completionId, fields);
+    if (!completion) throw new Error('Completion not found');
+    return completion;
+  }
 
-    // Note: We no longer create the next instance here because we pre-generate
-    // all instances when the recurring task is created
+  /**
+   * Totals the values logged across every completion of a series
+   */
+  async getSeriesCompletionSummary(seriesId: string): Promise<CompletionSummary> {
+    return summarizeCompletionValues(await this.database.getSeriesCompletions(seriesId));
   }
 
-  async isTaskCompletedToday(taskId: string): Promise<boolean> {
-    return database.isTaskCompletedToday(taskId);
+  // Checklist Functions
+
+  async getSubtasks(taskId: string): Promise<Subtask[]> {
+    return this.database.getSubtasks(taskId);
+  }
+
+  /**
+   * Checklist progress of the given tasks, e.g. 2 of 5 checked. Tasks without
+   * a checklist are left out.
+   */
+  async getChecklistProgress(taskIds: string[]): Promise<Map<string, ChecklistProgress>> {
+    return this.database.getChecklistProgress(taskIds);
+  }
+
+  /**
+   * Replaces the checklist of a task with the given item titles, in order.
+   * Items that keep their title keep their checked state.
+   */
+  async setChecklist(taskId: string, titles: string[]): Promise<Subtask[]> {
+    return this.database.transaction(tx => this.saveChecklist(tx, taskId, titles));
+  }
+
+  private async saveChecklist(tx: DatabaseService, taskId: string, titles: string[]): Promise<Subtask[]> {
+    const existing = await tx.getSubtasks(taskId);
+    const subtasks: Subtask[] = [];
+
+    for (const [position, title] of titles.map(item => item.trim()).filter(Boolean).entries()) {
+      const index = existing.findIndex(item => item.title === title);
+      if (index === -1) {
+        subtasks.push(await tx.createSubtask(taskId, title, position));
+        continue;
+      }
+
+      const [item] = existing.splice(index, 1);
+      if (item.position !== position) {
+        await tx.updateSubtask(item.id, { position });
+      }
+      subtasks.push({ ...item, position });
+    }
+
+    for (const item of existing) {
+      await tx.deleteSubtask(item.id);
+    }
+
+    return subtasks;
+  }
+
+  /**
+   * Checks or unchecks a checklist item. Checking the last open item of a
+   * task set to auto-complete also completes the task; `nextTask` is then the
+   * instance a completion-based series scheduled, if any.
+   */
+  async setSubtaskChecked(
+    subtaskId: string,
+    checked: boolean
+  ): Promise<{ subtask: Subtask; autoCompleted: boolean; nextTask: Task | null }> {
+    const subtask = await this.database.updateSubtask(subtaskId, {
+      completedAt: checked ? new Date().toISOString() : undefined,
+    });
+    if (!subtask) throw new Error('Subtask not found');
+
+    const task = checked ? await this.getTaskById(subtask.taskId) : null;
+    if (!task?.autoCompleteChecklist) {
+      return { subtask, autoCompleted: false, nextTask: null };
+    }
+
+    const progress = (await this.database.getChecklistProgress([task.id])).get(task.id);
+    const isCompleted = (await this.database.getCompletionState([task.id])).has(task.id);
+    if (!progress || progress.done < progress.total || isCompleted) {
+      return { subtask, autoCompleted: false, nextTask: null };
+    }
+
+    const nextTask = await this.completeTask(task.id);
+    return { subtask, autoCompleted: true, nextTask };
+  }
+
+  /**
+   * Which of the given tasks are completed, with the completion of each
+   */
+  async getCompletionState(taskIds: string[]): Promise<Map<string, TaskCompletion>> {
+    return this.database.getCompletionState(taskIds);
   }
 
   async getTaskById(id: string): Promise<Task | null> {
-    const tasks = await database.getTasks();
+    const tasks = await this.database.getTasks();
     return tasks.find(task => task.id === id) || null;
   }
 
   async updateTask(id: string, updates: Partial<Task>): Promise<void> {
-    await database.updateTask(id, updates);
+    await this.database.updateTask(id, updates);
   }
 
   async deleteTask(id: string): Promise<void> {
-    await database.deleteTask(id);
+    await this.database.deleteTask(id);
   }
 
   async getDashboardMetrics(): Promise<DashboardMetrics> {
@@ -124,11 +402,13 @@ class TaskService {
       const today = getDateString(new Date());
       console.log('Getting dashboard metrics for date:', today);
       
-      const todayTasks = await database.getTasks(today);
-      const todayCompletions = await database.getCompletions(undefined, today);
-      const overdueTasks = await database.getOverdueTasks();
+      // Skipped occurrences don't count towards the completion rate
+      const todayTasks = (await this.database.getTasks(today)).filter(task => !task.skippedAt);
+      const completionState = await this.database.getCompletionState(todayTasks.map(task => task.id));
+      // Tasks that cannot be started yet are not counted as late
+      const overdueTasks = await this.database.getOverdueTasks({ excludeBlocked: true });
 
-      const completedToday = todayCompletions.length;
+      const completedToday = todayTasks.filter(task => completionState.has(task.id)).length;
       const totalToday = todayTasks.length;
       const completionRate = totalToday > 0 ? (completedToday / totalToday) * 100 : 0;
 
@@ -155,42 +435,91 @@ class TaskService {
     }
   }
 
+  // Days in a row, up to a year back from today, on which every task was done
   private async calculateStreak(): Promise<number> {
+    const today = getDateString(new Date());
+    const tasksByDate = await this.database.getTasksInRange(addDays(today, -364), today);
+    const tasks = [...tasksByDate.values()].flat().filter(task => !task.skippedAt);
+    const completions = await this.database.getCompletionsForTasks(tasks.map(task => task.id));
+
     let streak = 0;
-    const today = new Date();
-    
-    for (let i = 0; i < 365; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const dateStr = getDateString(date);
-      
-      const tasks = await database.getTasks(dateStr);
-      const completions = await database.getCompletions(undefined, dateStr);
-      
-      if (tasks.length === 0) continue;
-      
-      if (completions.length === tasks.length) {
+    // Latest day first; days without tasks neither count nor break the streak
+    for (const date of [...tasksByDate.keys()].reverse()) {
+      const dayTasks = tasksByDate.get(date)!.filter(task => !task.skippedAt);
+      if (dayTasks.length === 0) continue;
+
+      if (dayTasks.every(task => completions.has(task.id))) {
         streak++;
       } else {
         break;
       }
     }
-    
+
     return streak;
   }
 
   async getTaskCompletions(taskId: string): Promise<TaskCompletion[]> {
-    return database.getCompletions(taskId);
+    return this.database.getCompletions(taskId);
+  }
+
+  /**
+   * The completions of each of the given tasks, oldest first, keyed by task
+   * id. Tasks that were never completed are left out.
+   */
+  async getCompletionsForTasks(taskIds: string[]): Promise<Map<string, TaskCompletion[]>> {
+    return this.database.getCompletionsForTasks(taskIds);
   }
 
-  async getOverdueTasks(): Promise<Task[]> {
-    return database.getOverdueTasks();
+  async getOverdueTasks(options: { excludeBlocked?: boolean } = {}): Promise<Task[]> {
+    return this.database.getOverdueTasks(options);
+  }
+
+  // Dependency Functions
+
+  /**
+   * Records that `taskId` cannot start until `blockedById` is done. Rejects
+   * relations that would make a task wait on itself, directly or through a
+   * chain of other tasks.
+   */
+  async addBlocker(taskId: string, blockedById: string): Promise<void> {
+    if (taskId === blockedById) {
+      throw new Error('A task cannot block itself');
+    }
+
+    const [task, blocker] = await Promise.all([this.getTaskById(taskId), this.getTaskById(blockedById)]);
+    if (!task || !blocker) throw new Error('Task not found');
+
+    if (await this.database.isBlockedBy(blockedById, taskId)) {
+      throw new Error(`"${blocker.title}" already waits on "${task.title}"`);
+    }
+
+    await this.database.addDependency(taskId, blockedById);
+  }
+
+  async removeBlocker(taskId: string, blockedById: string): Promise<void> {
+    await this.database.removeDependency(taskId, blockedById);
+  }
+
+  async getBlockers(taskId: string): Promise<Task[]> {
+    return this.database.getBlockers(taskId);
+  }
+
+  async getDependents(taskId: string): Promise<Task[]> {
+    return this.database.getDependents(taskId);
+  }
+
+  /**
+   * The blockers of each of the given tasks that are neither completed nor
+   * skipped yet. Tasks missing from the map are free to start.
+   */
+  async getOpenBlockers(taskIds: string[]): Promise<Map<string, Task[]>> {
+    return this.database.getOpenBlockers(taskIds);
   }
 
   // Completion Analytics Functions
 
   async analyzeTaskCompletion(taskId: string, completionId: string): Promise<TaskCompletionAnalytics | null> {
-    const result = await database.getTaskWithCompletions(taskId);
+    const result = await this.database.getTaskWithCompletions(taskId);
     if (!result) return null;
 
     const completion = result.completions.find(c => c.id === completionId);
@@ -204,7 +533,7 @@ class TaskService {
     completions: TaskCompletion[];
     analytics: TaskCompletionAnalytics[];
   } | null> {
-    const result = await database.getTaskWithCompletions(taskId);
+    const result = await this.database.getTaskWithCompletions(taskId);
     if (!result) return null;
 
     const analytics = result.completions.map(completion => 
@@ -219,7 +548,7 @@ class TaskService {
   }
 
   async getCompletionStats(days: number = 30): Promise<CompletionStats> {
-    const { tasks, completions } = await database.getRecentCompletionTrends(days);
+    const { tasks, completions } = await this.database.getRecentCompletionTrends(days);
     return analyzeCompletionStats(tasks, completions);
   }
 
@@ -229,7 +558,7 @@ class TaskService {
     analytics: TaskCompletionAnalytics;
     description: string;
   }[]> {
-    const { tasks, completions } = await database.getRecentCompletionTrends(days);
+    const { tasks, completions } = await this.database.getRecentCompletionTrends(days);
     
     const lateCompletions = completions.map(completion => {
       const task = tasks.find(t => t.id === completion.taskId);
@@ -270,212 +599,662 @@ class TaskService {
     return getLateCompletionDescription(analytics);
   }
 
-  private async createRecurringTaskWithInstances(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Promise<Task> {
-    try {
-      // Get user settings for how many days to generate
-      const settings = await getSettings();
-      const daysToGenerate = settings.recurringTaskGenerationDays;
-      
-      console.log(`Creating recurring task instances for ${daysToGenerate} days: ${task.title}`);
-      
-      // Start from the task's due date
-      let currentDate = new Date(task.dueDate);
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + daysToGenerate);
-      
-      const instancesToCreate: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[] = [];
-      let instanceCount = 0;
-      const maxInstances = 365; // Safety limit
-      let firstCreatedTask: Task | null = null;
-      
-      // Generate instances until we reach the end date or hit the safety limit
-      while (currentDate <= endDate && instanceCount < maxInstances) {
-        // Create a non-recurring instance for this date
-        const instance: Omit<Task, 'id' | 'createdAt' | 'updatedAt'> = {
-          title: task.title,
-          description: task.description,
-          type: task.type,
-          dueDate: getDateString(currentDate),
-          dueTime: task.dueTime,
-          isRecurring: false, // Instances are not recurring themselves
-          recurrencePattern: undefined,
-          recurrenceInterval: undefined,
-          priority: task.priority,
-          categoryId: task.categoryId,
-        };
-        
-        try {
-          const createdInstance = await database.createTask(instance);
-          if (!firstCreatedTask) {
-            firstCreatedTask = createdInstance; // Return the first instance as the "created task"
-          }
-          instanceCount++;
-          console.log(`Created instance ${instanceCount} for ${getDateString(currentDate)}`);
-        } catch (error) {
-          console.error(`Error creating instance for ${getDateString(currentDate)}:`, error);
-          // Continue with other instances even if one fails
-        }
-        
-        // Get the next recurrence date
-        currentDate = getNextRecurrenceDate(
-          currentDate,
-          task.recurrencePattern!,
-          task.recurrenceInterval
-        );
+  // Category Functions
+
+  async getCategories(): Promise<Category[]> {
+    await this.ensureDatabaseReady();
+    return this.database.getCategories();
+  }
+
+  async createCategory(name: string, color: string, icon?: string): Promise<Category> {
+    await this.validateCategory({ name, color });
+    return this.database.createCategory(name.trim(), color, icon);
+  }
+
+  /**
+   * Renames, recolors or changes the icon of a category. The order is
+   * changed with `reorderCategories`.
+   */
+  async updateCategory(id: string, updates: Partial<Pick<Category, 'name' | 'color' | 'icon'>>): Promise<void> {
+    await this.validateCategory(updates, id);
+    await this.database.updateCategory(id, { ...updates, name: updates.name?.trim() });
+  }
+
+  private async validateCategory(category: Partial<Pick<Category, 'name' | 'color'>>, id?: string): Promise<void> {
+    if (category.name !== undefined) {
+      const name = category.name.trim();
+      if (!name) {
+        throw new Error('Category name is required');
       }
-      
-      console.log(`Successfully created ${instanceCount} recurring instances`);
-      
-      if (!firstCreatedTask) {
-        throw new Error('Failed to create any recurring task instances');
+
+      const categories = await this.database.getCategories();
+      if (categories.some(other => other.id !== id && other.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`A category named "${name}" already exists`);
       }
-      
-      return firstCreatedTask;
-    } catch (error) {
-      console.error('Error creating recurring task with instances:', error);
-      throw error;
+    }
+    if (category.color !== undefined && !/^#[0-9a-f]{6}$/i.test(category.color)) {
+      throw new Error('Invalid category color');
     }
   }
 
-  private async generateFutureRecurringInstances(parentTask: Task): Promise<void> {
-    try {
-      // Get user settings for how many days to generate
-      const settings = await getSettings();
-      const daysToGenerate = settings.recurringTaskGenerationDays;
-      
-      console.log(`Generating recurring instances for ${daysToGenerate} days for task: ${parentTask.title}`);
-      console.log(`Parent task due date: ${parentTask.dueDate}`);
-      console.log(`Recurrence pattern: ${parentTask.recurrencePattern}`);
-      
-      // Start from the task's due date
-      let currentDate = new Date(parentTask.dueDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + daysToGenerate);
-      
-      console.log(`Generation range: ${today.toISOString()} to ${endDate.toISOString()}`);
-      
-      const instancesToCreate: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[] = [];
-      let instanceCount = 0;
-      const maxInstances = 365; // Safety limit
-      
-      // Always start from the NEXT occurrence after the parent task's date
-      // This prevents creating a duplicate for the parent task's date
-      currentDate = getNextRecurrenceDate(
-        currentDate,
-        parentTask.recurrencePattern!,
-        parentTask.recurrenceInterval
-      );
-      
-      console.log(`First instance will be created for: ${currentDate.toISOString()}`);
-      
-      // If the next occurrence is in the past (shouldn't happen for new tasks),
-      // skip ahead to after today
-      while (currentDate <= today && instanceCount < maxInstances) {
-        currentDate = getNextRecurrenceDate(
-          currentDate,
-          parentTask.recurrencePattern!,
-          parentTask.recurrenceInterval
-        );
-        instanceCount++;
+  /**
+   * Stores the order of the categories, given as their ids from first to last
+   */
+  async reorderCategories(categoryIds: string[]): Promise<void> {
+    await this.database.transaction(async tx => {
+      for (const [position, id] of categoryIds.entries()) {
+        await tx.updateCategory(id, { position });
       }
-      
-      // Reset counter for actual instance creation
-      instanceCount = 0;
-      
-      // Generate instances until we reach the end date or hit the safety limit
-      while (currentDate <= endDate && instanceCount < maxInstances) {
-        // Create a non-recurring instance
-        const instance: Omit<Task, 'id' | 'createdAt' | 'updatedAt'> = {
-          title: parentTask.title,
-          description: parentTask.description,
-          type: parentTask.type,
-          dueDate: getDateString(currentDate),
-          dueTime: parentTask.dueTime,
-          isRecurring: false, // Instances are not recurring themselves
-          recurrencePattern: undefined,
-          recurrenceInterval: undefined,
-          priority: parentTask.priority,
-          categoryId: parentTask.categoryId,
-        };
-        
-        instancesToCreate.push(instance);
-        instanceCount++;
-        
-        // Get the next recurrence date
-        currentDate = getNextRecurrenceDate(
-          currentDate,
-          parentTask.recurrencePattern!,
-          parentTask.recurrenceInterval
+    });
+  }
+
+  async countCategoryTasks(id: string): Promise<number> {
+    return this.database.countCategoryTasks(id);
+  }
+
+  /**
+   * Deletes a category. Its tasks, and the series they belong to, move to
+   * `reassignToId`, or are left uncategorized if it is not given.
+   */
+  async deleteCategory(id: string, reassignToId?: string): Promise<void> {
+    if (reassignToId !== undefined) {
+      if (reassignToId === id) {
+        throw new Error('Tasks cannot be moved to the category being deleted');
+      }
+
+      const categories = await this.database.getCategories();
+      if (!categories.some(category => category.id === reassignToId)) {
+        throw new Error('Category not found');
+      }
+    }
+
+    await this.database.transaction(tx => tx.deleteCategory(id, reassignToId));
+  }
+
+  // Tag Functions
+
+  // All tags in name order, e.g. for autocomplete
+  async getTags(): Promise<Tag[]> {
+    await this.ensureDatabaseReady();
+    return this.database.getTags();
+  }
+
+  /**
+   * The tags of each of the given tasks, keyed by task id. Tasks without
+   * tags are left out.
+   */
+  async getTaskTags(taskIds: string[]): Promise<Map<string, Tag[]>> {
+    return this.database.getTaskTags(taskIds);
+  }
+
+  /**
+   * Replaces the tags of a task with the given names. Names match existing
+   * tags ignoring case; new names create new tags.
+   */
+  async setTaskTags(taskId: string, names: string[]): Promise<Tag[]> {
+    return this.database.transaction(tx => this.saveTags(tx, taskId, names));
+  }
+
+  private async saveTags(tx: DatabaseService, taskId: string, names: string[]): Promise<Tag[]> {
+    const tags: Tag[] = [];
+    for (const name of normalizeTagNames(names)) {
+      tags.push(await tx.getOrCreateTag(name));
+    }
+
+    await tx.setTaskTags(taskId, tags.map(tag => tag.id));
+    return tags;
+  }
+
+  // Search Functions
+
+  /**
+   * Finds tasks by words in their title, description or completion notes.
+   * Each word also matches longer words it starts. An empty query finds
+   * nothing.
+   */
+  async searchTasks(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    await this.ensureDatabaseReady();
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const { tasks, notes } = await this.database.searchTasks(buildMatchQuery(terms), filters);
+    return tasks.map(task => ({
+      task,
+      notes: (notes.get(task.id) ?? []).filter(note => matchesSearchTerms(note, terms)),
+    }));
+  }
+
+  // Skip, Snooze and Reschedule Functions
+
+  /**
+   * Skips an occurrence: it stays on its date, but no longer counts as
+   * overdue or towards completion rates and streaks
+   */
+  async skipTask(taskId: string): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+
+    const skippedAt = new Date().toISOString();
+    await this.database.updateTask(taskId, { skippedAt });
+    return { ...task, skippedAt };
+  }
+
+  async unskipTask(taskId: string): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+
+    await this.database.updateTask(taskId, { skippedAt: undefined });
+    return { ...task, skippedAt: undefined };
+  }
+
+  async snoozeTask(taskId: string, option: SnoozeOption): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+
+    const { dueDate, dueTime } = getSnoozedDueDate(option, task.dueDate, task.dueTime, new Date(), task.timeZone);
+    return this.rescheduleTask(taskId, dueDate, dueTime);
+  }
+
+  /**
+   * Moves a task to a new date and time. The first move records the original
+   * due date and time, which completion analytics keep measuring against.
+   */
+  async rescheduleTask(taskId: string, dueDate: string, dueTime?: string): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+
+    const updates: Partial<Task> = {
+      dueDate,
+      dueTime,
+      originalDueDate: task.originalDueDate ?? task.dueDate,
+      originalDueTime: task.originalDueDate ? task.originalDueTime : task.dueTime,
+      skippedAt: undefined,
+    };
+
+    await this.database.updateTask(taskId, updates);
+    return { ...task, ...updates };
+  }
+
+  // Recurring Series Functions
+
+  async getSeries(seriesId: string): Promise<TaskSeries | null> {
+    await this.ensureDatabaseReady();
+    const [series] = await this.database.getSeries(seriesId);
+    return series || null;
+  }
+
+  async getSeriesInstances(seriesId: string): Promise<Task[]> {
+    await this.ensureDatabaseReady();
+    return this.database.getSeriesInstances(seriesId);
+  }
+
+  /**
+   * Updates a series and brings its open instances from today on in line
+   * with the new template and schedule
+   */
+  async updateSeries(
+    seriesId: string,
+    updates: Partial<Omit<TaskSeries, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SeriesChangeResult> {
+    const series = await this.getSeries(seriesId);
+    if (!series) throw new Error('Series not found');
+
+    return this.database.transaction(async tx => {
+      await tx.updateSeries(seriesId, updates);
+      return this.reconcileSeriesInstances(tx, { ...series, ...updates }, getDateString(new Date()));
+    });
+  }
+
+  /**
+   * Finds where an instance falls in its series, e.g. occurrence 4 of 10.
+   * Returns null for tasks that are not part of a series.
+   */
+  async getOccurrencePosition(task: Task): Promise<OccurrencePosition | null> {
+    const series = task.seriesId ? await this.getSeries(task.seriesId) : null;
+    if (!series) {
+      return null;
+    }
+
+    const occurrenceDate = getOccurrenceDate(task);
+    if (series.recurrenceMode !== 'completion') {
+      return getSeriesOccurrencePosition(series, occurrenceDate);
+    }
+
+    // A completion-based series has no fixed schedule, so its instances are counted
+    return {
+      index: (await this.countOccurrencesBefore(this.database, series, occurrenceDate)) + 1,
+      total: series.occurrenceCount,
+    };
+  }
+
+  private async countOccurrencesBefore(db: DatabaseService, series: TaskSeries, date: string): Promise<number> {
+    if (series.recurrenceMode !== 'completion') {
+      return getSeriesOccurrenceDates(series, series.startDate, addDays(date, -1), Infinity).length;
+    }
+
+    const instances = await db.getSeriesInstances(series.id);
+    return instances.filter(instance => getOccurrenceDate(instance) < date).length;
+  }
+
+  async deleteSeries(seriesId: string): Promise<void> {
+    await this.ensureDatabaseReady();
+    await this.database.deleteSeries(seriesId);
+  }
+
+  /**
+   * Saves the edit form for a task. For an instance of a series, `scope`
+   * decides whether the change applies to just this occurrence, to this and
+   * all following occurrences (splitting the series in two) or to the whole
+   * series. Everything is applied in one transaction.
+   *
+   * A `checklist` replaces the checklist of the task, and for the following
+   * occurrences or the whole series also the series template and the
+   * checklists of its open instances. `tags` are applied the same way.
+   */
+  async updateTaskWithScope(
+    taskId: string,
+    updates: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+    scope: SeriesEditScope,
+    checklist?: string[],
+    tags?: string[]
+  ): Promise<SeriesChangeResult> {
+    await this.ensureDatabaseReady();
+    const task = await this.getTaskById(taskId);
+    if (!task) throw new Error('Task not found');
+
+    const series = task.seriesId ? await this.getSeries(task.seriesId) : null;
+    const repeats = updates.isRecurring && !!updates.recurrencePattern;
+    const instanceUpdates = this.buildInstanceUpdates(updates);
+
+    return this.database.transaction(async tx => {
+      if (checklist) {
+        await this.saveChecklist(tx, taskId, checklist);
+      }
+      if (tags) {
+        await this.saveTags(tx, taskId, tags);
+      }
+
+      if (!series) {
+        if (!repeats) {
+          await tx.updateTask(taskId, updates);
+          return { updatedTasks: [{ ...task, ...updates }], removedTaskIds: [] };
+        }
+
+        // Turning a one-off task into a series keeps it as the first instance
+        const newSeries = await tx.createSeries(
+          this.buildSeriesFields(
+            updates,
+            updates.dueDate,
+            await this.getChecklistTitles(tx, taskId),
+            await this.getTagNames(tx, taskId)
+          )
         );
+        await tx.updateTask(taskId, { ...instanceUpdates, seriesId: newSeries.id });
+        return this.reconcileSeriesInstances(tx, newSeries, updates.dueDate);
       }
-      
-      // Batch create all instances
-      console.log(`Creating ${instancesToCreate.length} recurring instances`);
-      for (const instance of instancesToCreate) {
-        try {
-          await database.createTask(instance);
-        } catch (error) {
-          console.error('Error creating individual instance:', error);
-          // Continue with other instances even if one fails
+
+      if (scope === 'occurrence') {
+        // Recorded as an override so later changes to the series keep it
+        await this.saveOccurrenceOverride(tx, series, task, instanceUpdates);
+        await tx.updateTask(taskId, instanceUpdates);
+        return { updatedTasks: [{ ...task, ...instanceUpdates }], removedTaskIds: [] };
+      }
+
+      // A snoozed or rescheduled instance still splits the series at the date it stands for
+      const occurrenceDate = getOccurrenceDate(task);
+
+      if (!repeats) {
+        // "Does not repeat" ends the series with this occurrence
+        const removedTaskIds = await this.endSeriesBefore(tx, series, addDays(occurrenceDate, 1));
+        await tx.updateTask(taskId, instanceUpdates);
+        return { updatedTasks: [{ ...task, ...instanceUpdates }], removedTaskIds };
+      }
+
+      const fromDate = occurrenceDate < updates.dueDate ? occurrenceDate : updates.dueDate;
+      const seriesChecklist = checklist ?? series.checklist;
+      const seriesTags = tags ?? series.tags;
+      // How far the edit moved this instance from where it was
+      const shift = getDaysBetween(task.dueDate, updates.dueDate);
+
+      if (scope === 'following' && occurrenceDate > series.startDate) {
+        const newSeriesFields = this.buildSeriesFields(
+          updates,
+          addDays(occurrenceDate, shift),
+          seriesChecklist,
+          seriesTags
+        );
+        if (newSeriesFields.occurrenceCount) {
+          // The occurrences before the split already count towards the total
+          const occurrencesBefore = await this.countOccurrencesBefore(tx, series, occurrenceDate);
+          newSeriesFields.occurrenceCount = Math.max(1, newSeriesFields.occurrenceCount - occurrencesBefore);
         }
+        const { id: newSeriesId } = await tx.createSeries(newSeriesFields);
+        await tx.updateSeries(series.id, { untilDate: addDays(occurrenceDate, -1) });
+        await tx.moveSeriesInstances(series.id, newSeriesId, occurrenceDate);
+        // Reloaded to pick up the exception dates and overrides that moved with it
+        const [newSeries] = await tx.getSeries(newSeriesId);
+        const result = await this.reconcileSeriesInstances(tx, newSeries, fromDate);
+        await this.syncInstanceChecklists(tx, result, checklist);
+        await this.syncInstanceTags(tx, result, tags);
+        return result;
       }
-      
-      console.log(`Successfully created ${instancesToCreate.length} recurring instances`);
-    } catch (error) {
-      console.error('Error generating future recurring instances:', error);
-      console.error('Error details:', error instanceof Error ? error.message : error);
-      // Don't throw - we don't want to fail the parent task creation
+
+      // Whole series: shift the anchor date by however far this occurrence moved
+      const seriesUpdates = this.buildSeriesFields(
+        updates,
+        addDays(series.startDate, shift),
+        seriesChecklist,
+        seriesTags
+      );
+      await tx.updateSeries(series.id, seriesUpdates);
+
+      const today = getDateString(new Date());
+      const result = await this.reconcileSeriesInstances(
+        tx,
+        { ...series, ...seriesUpdates },
+        fromDate < today ? fromDate : today
+      );
+      await this.syncInstanceChecklists(tx, result, checklist);
+      await this.syncInstanceTags(tx, result, tags);
+      return result;
+    });
+  }
+
+  private async getChecklistTitles(tx: DatabaseService, taskId: string): Promise<string[]> {
+    return (await tx.getSubtasks(taskId)).map(item => item.title);
+  }
+
+  // Gives the open instances a series edit touched its new checklist template
+  private async syncInstanceChecklists(
+    tx: DatabaseService,
+    result: SeriesChangeResult,
+    checklist?: string[]
+  ): Promise<void> {
+    if (!checklist) {
+      return;
     }
+
+    for (const instance of result.updatedTasks) {
+      await this.saveChecklist(tx, instance.id, checklist);
+    }
+  }
+
+  private async getTagNames(tx: DatabaseService, taskId: string): Promise<string[]> {
+    return ((await tx.getTaskTags([taskId])).get(taskId) ?? []).map(tag => tag.name);
   }
 
-  async regenerateRecurringInstances(taskId: string): Promise<void> {
-    // This method can be used to regenerate instances for an existing recurring task
+  // Gives the open instances a series edit touched its new tags
+  private async syncInstanceTags(
+    tx: DatabaseService,
+    result: SeriesChangeResult,
+    tags?: string[]
+  ): Promise<void> {
+    if (!tags) {
+      return;
+    }
+
+    for (const instance of result.updatedTasks) {
+      await this.saveTags(tx, instance.id, tags);
+    }
+  }
+
+  /**
+   * Deletes a task. For an instance of a series, `scope` decides whether only
+   * this occurrence, this and all following occurrences, or the whole series
+   * is removed.
+   */
+  async deleteTaskWithScope(taskId: string, scope: SeriesEditScope): Promise<SeriesChangeResult> {
+    await this.ensureDatabaseReady();
     const task = await this.getTaskById(taskId);
-    if (!task || !task.isRecurring) {
-      throw new Error('Task not found or is not recurring');
+    if (!task) throw new Error('Task not found');
+
+    const series = task.seriesId ? await this.getSeries(task.seriesId) : null;
+
+    if (!series) {
+      await this.database.deleteTask(taskId);
+      return { updatedTasks: [], removedTaskIds: [taskId] };
     }
-    
-    // First, delete any future instances of this task
-    // (We'd need to add a parent_task_id field to properly track this)
-    
-    // Then regenerate
-    await this.generateFutureRecurringInstances(task);
+
+    if (scope === 'occurrence') {
+      // An exception date keeps the series from generating the occurrence again
+      const occurrenceDate = getOccurrenceDate(task);
+      await this.database.transaction(async tx => {
+        await tx.addSeriesExceptionDate(series.id, occurrenceDate);
+        await tx.deleteSeriesOverride(series.id, occurrenceDate);
+        await tx.deleteTask(taskId);
+      });
+      return { updatedTasks: [], removedTaskIds: [taskId] };
+    }
+
+    return this.database.transaction(async tx => {
+      const instances = await tx.getSeriesInstances(series.id);
+      // Checked against the instances rather than the start date, which moves
+      // on with every completion of a completion-based series
+      const occurrenceDate = getOccurrenceDate(task);
+      const isFirstOccurrence = !instances.some(instance => getOccurrenceDate(instance) < occurrenceDate);
+
+      if (scope === 'series' || isFirstOccurrence) {
+        await tx.deleteSeries(series.id);
+        return { updatedTasks: [], removedTaskIds: instances.map(instance => instance.id) };
+      }
+
+      const removedTaskIds = await this.endSeriesBefore(tx, series, occurrenceDate);
+      if (!removedTaskIds.includes(taskId)) {
+        // The occurrence itself goes even if it was already completed
+        await tx.deleteTask(taskId);
+        removedTaskIds.push(taskId);
+      }
+      return { updatedTasks: [], removedTaskIds };
+    });
   }
 
-  async generateMissingRecurringInstances(): Promise<void> {
-    // This method finds all recurring tasks and generates their future instances
-    // Useful for existing recurring tasks created before this feature was added
+  private async createRecurringTaskWithInstances(
+    task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+    checklist: string[],
+    tags: string[]
+  ): Promise<Task> {
     try {
-      console.log('Checking for recurring tasks missing future instances...');
-      
-      const allTasks = await database.getTasks();
-      const recurringTasks = allTasks.filter(task => task.isRecurring);
-      
-      for (const recurringTask of recurringTasks) {
-        // Check if this recurring task already has future instances
-        const futureDate = new Date();
-        futureDate.setDate(futureDate.getDate() + 1);
-        
-        const futureTasks = await database.getTasks(getDateString(futureDate));
-        const hasFutureInstance = futureTasks.some(t => 
-          t.title === recurringTask.title && 
-          t.type === recurringTask.type &&
-          !t.isRecurring
-        );
-        
-        if (!hasFutureInstance) {
-          console.log(`Generating missing instances for recurring task: ${recurringTask.title}`);
-          await this.generateFutureRecurringInstances(recurringTask);
+      // A series without its instances is rolled back rather than left behind
+      return await this.database.transaction(async tx => {
+        const series = await tx.createSeries(this.buildSeriesFields(task, task.dueDate, checklist, tags));
+
+        const createdInstances = await horizonManager.extendSeries(series, tx);
+
+        if (createdInstances.length === 0) {
+          throw new Error('Failed to create any recurring task instances');
         }
-      }
-      
-      console.log('Finished checking for missing recurring instances');
+
+        // Return the first instance as the "created task"
+        return createdInstances[0];
+      });
     } catch (error) {
-      console.error('Error generating missing recurring instances:', error);
+      console.error('Error creating recurring task with instances:', error);
+      throw error;
     }
   }
+
+  private buildSeriesFields(
+    task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+    startDate: string,
+    checklist?: string[],
+    tags?: string[]
+  ): Omit<TaskSeries, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      title: task.title,
+      description: task.description,
+      type: task.type,
+      dueTime: task.dueTime,
+      timeZone: task.timeZone,
+      priority: task.priority,
+      categoryId: task.categoryId,
+      recurrencePattern: task.recurrencePattern!,
+      recurrenceInterval: task.recurrenceInterval,
+      rrule: task.rrule,
+      recurrenceMode: task.recurrenceMode ?? 'schedule',
+      startDate,
+      untilDate: task.recurrenceUntil,
+      occurrenceCount: task.recurrenceCount,
+      checklist: checklist?.map(item => item.trim()).filter(Boolean),
+      tags: tags && normalizeTagNames(tags),
+      autoCompleteChecklist: task.autoCompleteChecklist,
+    };
+  }
+
+  /**
+   * Records the fields of an occurrence edit that differ from the series as
+   * an override of that occurrence, or clears the override if none do
+   */
+  private async saveOccurrenceOverride(
+    tx: DatabaseService,
+    series: TaskSeries,
+    task: Task,
+    updates: Partial<Task>
+  ): Promise<void> {
+    const occurrenceDate = getOccurrenceDate(task);
+    const override: SeriesOverride = { occurrenceDate };
+
+    if (updates.dueDate && updates.dueDate !== occurrenceDate) {
+      override.dueDate = updates.dueDate;
+    }
+    if (updates.dueTime && updates.dueTime !== series.dueTime) {
+      override.dueTime = updates.dueTime;
+    }
+    if (updates.title && updates.title !== series.title) {
+      override.title = updates.title;
+    }
+    if (updates.description && updates.description !== series.description) {
+      override.description = updates.description;
+    }
+
+    if (Object.keys(override).length > 1) {
+      await tx.saveSeriesOverride(series.id, override);
+    } else {
+      await tx.deleteSeriesOverride(series.id, occurrenceDate);
+    }
+  }
+
+  // The fields an edit may change on a single instance; recurrence lives on the series
+  private buildInstanceUpdates(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Partial<Task> {
+    return {
+      title: task.title,
+      description: task.description,
+      type: task.type,
+      dueDate: task.dueDate,
+      dueTime: task.dueTime,
+      timeZone: task.timeZone,
+      priority: task.priority,
+      categoryId: task.categoryId,
+      autoCompleteChecklist: task.autoCompleteChecklist,
+    };
+  }
+
+  /**
+   * Brings the open instances of a series due on or after `fromDate` in line
+   * with its current template and schedule. Instances whose occurrence date is
+   * still part of the schedule keep it; the rest are re-dated in order rather
+   * than recreated so their ids (and notifications) survive. Surplus rows are
+   * deleted and missing dates are created. Completed instances are never
+   * touched.
+   */
+  private async reconcileSeriesInstances(
+    tx: DatabaseService,
+    series: TaskSeries,
+    fromDate: string
+  ): Promise<SeriesChangeResult> {
+    const endDate = await horizonManager.getGenerationEnd(series);
+    const completedIds = new Set(await tx.getCompletedSeriesInstanceIds(series.id));
+    const instances = (await tx.getSeriesInstances(series.id)).filter(
+      instance => getOccurrenceDate(instance) >= fromDate
+    );
+
+    const completedDates = new Set(
+      instances.filter(instance => completedIds.has(instance.id)).map(getOccurrenceDate)
+    );
+    const dates = getSeriesOccurrenceDates(series, fromDate, endDate).filter(
+      date => !completedDates.has(date)
+    );
+
+    const matchedInstances = new Map<string, Task>();
+    const unmatchedInstances: Task[] = [];
+    for (const instance of instances.filter(open => !completedIds.has(open.id))) {
+      const date = getOccurrenceDate(instance);
+      if (dates.includes(date) && !matchedInstances.has(date)) {
+        matchedInstances.set(date, instance);
+      } else {
+        unmatchedInstances.push(instance);
+      }
+    }
+    const unmatchedDates = dates.filter(date => !matchedInstances.has(date));
+
+    const updatedTasks: Task[] = [];
+    const removedTaskIds: string[] = [];
+
+    for (const [date, instance] of matchedInstances) {
+      const fields: Partial<Task> = createSeriesInstance(series, date);
+      if (instance.originalDueDate) {
+        // A snoozed or rescheduled occurrence stays where it was moved to
+        fields.dueDate = instance.dueDate;
+        fields.dueTime = instance.dueTime;
+      }
+      await tx.updateTask(instance.id, fields);
+      updatedTasks.push({ ...instance, ...fields });
+    }
+
+    for (let i = 0; i < Math.max(unmatchedInstances.length, unmatchedDates.length); i++) {
+      const instance = unmatchedInstances[i];
+      const date = unmatchedDates[i];
+
+      if (instance && date) {
+        // The row now stands for a different occurrence, so it starts afresh
+        const fields: Partial<Task> = {
+          ...createSeriesInstance(series, date),
+          skippedAt: undefined,
+          originalDueDate: undefined,
+          originalDueTime: undefined,
+        };
+        await tx.updateTask(instance.id, fields);
+        await tx.uncheckSubtasks(instance.id);
+        updatedTasks.push({ ...instance, ...fields });
+      } else if (instance) {
+        await tx.deleteTask(instance.id);
+        removedTaskIds.push(instance.id);
+      } else {
+        updatedTasks.push(await tx.createTask(createSeriesInstance(series, date)));
+      }
+    }
+
+    await tx.updateSeries(series.id, { generatedThrough: endDate });
+    return { updatedTasks, removedTaskIds };
+  }
+
+  /**
+   * Ends a series on the day before `date` and deletes its open instances
+   * from that date on, returning the ids that were removed
+   */
+  private async endSeriesBefore(tx: DatabaseService, series: TaskSeries, date: string): Promise<string[]> {
+    const completedIds = new Set(await tx.getCompletedSeriesInstanceIds(series.id));
+    const removedTaskIds = (await tx.getSeriesInstances(series.id))
+      .filter(instance => getOccurrenceDate(instance) >= date && !completedIds.has(instance.id))
+      .map(instance => instance.id);
+
+    await tx.updateSeries(series.id, { untilDate: addDays(date, -1) });
+    await tx.deleteOpenSeriesInstances(series.id, date);
+
+    return removedTaskIds;
+  }
+
+  async regenerateRecurringInstances(seriesId: string): Promise<SeriesChangeResult> {
+    const series = await this.getSeries(seriesId);
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    return this.database.transaction(tx =>
+      this.reconcileSeriesInstances(tx, series, getDateString(new Date()))
+    );
+  }
 }
 
 export default new TaskService();
\ No newline at end of file
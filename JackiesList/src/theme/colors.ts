@@ -50,4 +50,20 @@ export const darkTheme = {
   tabBarInactiveTint: '#808080',
 };
 
-export type Theme = typeof lightTheme;
\ No newline at end of file
+export type Theme = typeof lightTheme;
+
+// Colors offered for categories, which look the same in both themes
+export const categoryColors = [
+  '#F44336',
+  '#E91E63',
+  '#9C27B0',
+  '#3F51B5',
+  '#2196F3',
+  '#009688',
+  '#4CAF50',
+  '#8BC34A',
+  '#FFC107',
+  '#FF9800',
+  '#795548',
+  '#607D8B',
+];
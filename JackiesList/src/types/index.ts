@@ -1,5 +1,6 @@
 export type TaskType = 'appointment' | 'chore' | 'task';
-export type RecurrencePattern = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'annually' | 'custom';
+export type RecurrencePattern = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'annually' | 'custom' | 'rrule';
+export type RecurrenceMode = 'schedule' | 'completion'; // Fixed calendar, or counted from each completion
 export type Priority = 'low' | 'medium' | 'high';
 
 export interface Task {
@@ -9,27 +10,159 @@ export interface Task {
   type: TaskType;
   dueDate: string;
   dueTime?: string;
+  timeZone?: string; // IANA zone the due time is fixed to; floating (device time) if unset
   isRecurring: boolean;
   recurrencePattern?: RecurrencePattern;
   recurrenceInterval?: number;
+  rrule?: string;
+  recurrenceMode?: RecurrenceMode;
+  recurrenceUntil?: string; // Last date the series may occur on
+  recurrenceCount?: number; // Number of occurrences before the series ends
   priority: Priority;
   categoryId?: string;
+  seriesId?: string;
+  occurrenceDate?: string; // The series date this instance was generated for
+  skippedAt?: string;
+  originalDueDate?: string; // Set the first time the task is snoozed or rescheduled
+  originalDueTime?: string;
+  autoCompleteChecklist?: boolean; // Completes the task once every checklist item is checked
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TaskSeries {
+  id: string;
+  title: string;
+  description?: string;
+  type: TaskType;
+  dueTime?: string;
+  timeZone?: string;
+  priority: Priority;
+  categoryId?: string;
+  recurrencePattern: RecurrencePattern;
+  recurrenceInterval?: number;
+  rrule?: string;
+  recurrenceMode: RecurrenceMode;
+  startDate: string; // For completion-based series, the next due date
+  untilDate?: string;
+  occurrenceCount?: number; // Total occurrences, counted from the start date
+  exceptionDates?: string[]; // Occurrences cancelled without ending the series
+  overrides?: SeriesOverride[];
+  checklist?: string[]; // Item titles copied into the checklist of each new instance
+  tags?: string[]; // Tag names given to each new instance
+  autoCompleteChecklist?: boolean;
+  generatedThrough?: string; // Instances exist up to and including this date
+  createdAt: string;
+  updatedAt: string;
+}
+
+// RFC 5545 recurrence rule, used when the recurrence pattern is 'rrule'
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  ordinal?: number; // e.g. 2 for the 2nd, -1 for the last
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval?: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+export type SnoozeOption = 'hour' | 'day' | 'weekend';
+
+export type SeriesEditScope = 'occurrence' | 'following' | 'series';
+
+export interface SeriesChangeResult {
+  updatedTasks: Task[];
+  removedTaskIds: string[];
+}
+
+// A one-off change to a single occurrence of a series, keyed by the date
+// the series generates it for. Unset fields follow the series.
+export interface SeriesOverride {
+  occurrenceDate: string;
+  dueDate?: string;
+  dueTime?: string;
+  title?: string;
+  description?: string;
+}
+
+// Where an occurrence falls in its series, e.g. 4 of 10
+export interface OccurrencePosition {
+  index: number; // 1-based
+  total?: number; // Unknown for series without an end
+}
+
+// An item on the checklist of a single task
+export interface Subtask {
+  id: string;
+  taskId: string;
+  title: string;
+  position: number; // 0-based order within the checklist
+  completedAt?: string;
+}
+
+// How much of a task's checklist is checked, e.g. 2 of 5
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
 export interface TaskCompletion {
   id: string;
   taskId: string;
   completedAt: string;
   notes?: string;
+  value?: number; // An amount, duration or reading logged with the completion
+  photoPath?: string;
+}
+
+// What can be recorded alongside a completion
+export type CompletionDetails = Partial<Pick<TaskCompletion, 'notes' | 'value' | 'photoPath'>>;
+
+// Totals over the values logged for the completions of a series
+export interface CompletionSummary {
+  completions: number;
+  valueCount: number; // Completions that logged a value
+  total: number;
+  average?: number;
+  lastValue?: number;
 }
 
 export interface Category {
   id: string;
   name: string;
   color: string;
-  icon?: string;
+  icon?: string; // MaterialIcons name
+  position: number; // 0-based place in the user's order
+}
+
+// A free-form label such as "@errands"; a task can have any number of them
+export interface Tag {
+  id: string;
+  name: string; // Unique, ignoring case
+}
+
+// Narrows a search down; dates are inclusive due dates
+export interface SearchFilters {
+  type?: TaskType;
+  priority?: Priority;
+  categoryId?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface SearchResult {
+  task: Task;
+  notes: string[]; // Completion notes that matched the search
 }
 
 export interface DashboardMetrics {
@@ -1,4 +1,5 @@
-import { Task, TaskCompletion } from '../types';
+import { CompletionSummary, Task, TaskCompletion } from '../types';
+import { getDueDateTime } from './date';
 
 export interface TaskCompletionAnalytics {
   wasCompletedLate: boolean;
@@ -26,15 +27,12 @@ export const analyzeTaskCompletion = (
 ): TaskCompletionAnalytics => {
   const completionDateTime = new Date(completion.completedAt);
   
-  // Construct the due date/time
-  const dueDateTime = new Date(task.dueDate);
-  if (task.dueTime) {
-    const [hours, minutes] = task.dueTime.split(':').map(Number);
-    dueDateTime.setHours(hours, minutes, 0, 0);
-  } else {
-    // If no specific time, consider due at end of day (11:59 PM)
-    dueDateTime.setHours(23, 59, 59, 999);
-  }
+  // Construct the due date/time, measured against where it was originally
+  // due if the task has been snoozed or rescheduled since
+  const dueDate = task.originalDueDate ?? task.dueDate;
+  const dueTime = task.originalDueDate ? task.originalDueTime : task.dueTime;
+  // If no specific time, consider due at the end of the day
+  const dueDateTime = getDueDateTime(dueDate, dueTime, task.timeZone);
 
   const wasCompletedLate = completionDateTime > dueDateTime;
   
@@ -149,4 +147,23 @@ export const isSignificantlyLate = (task: Task, analytics: TaskCompletionAnalyti
     // For all-day tasks, consider 1+ day as significantly late
     return analytics.hoursLate >= 24;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Totals the values logged with completions, e.g. the amount spent on a
+ * recurring bill. Completions are expected newest first.
+ */
+export const summarizeCompletionValues = (completions: TaskCompletion[]): CompletionSummary => {
+  const values = completions
+    .map(completion => completion.value)
+    .filter((value): value is number => typeof value === 'number');
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  return {
+    completions: completions.length,
+    valueCount: values.length,
+    total,
+    average: values.length > 0 ? total / values.length : undefined,
+    lastValue: values[0],
+  };
+};
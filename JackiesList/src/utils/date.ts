@@ -1,5 +1,113 @@
+import { SnoozeOption } from '../types';
+
+/*
+ * Two kinds of values are stored. Due dates and occurrence dates are calendar
+ * dates (YYYY-MM-DD) with an optional HH:MM time, read in the device's time
+ * zone unless the task is fixed to a zone of its own. Completions and other
+ * timestamps are instants, stored as UTC ISO strings. Only the helpers below
+ * should convert between the two.
+ */
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    return !!new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    return false;
+  }
+}
+
+// How far ahead of UTC a zone's wall clock is at an instant, in milliseconds
+function getTimeZoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Parses a calendar date, and optionally a HH:MM time, as local time, or as
+ * the wall clock in `timeZone` for tasks fixed to a zone
+ */
+export function parseLocalDate(date: string, time?: string, timeZone?: string): Date {
+  if (!timeZone) {
+    return new Date(`${date}T${time || '00:00'}:00`);
+  }
+
+  // The offset at the wall clock time read as UTC is at most one transition
+  // away from the real one, so a second pass settles it
+  const wallClock = Date.parse(`${date}T${time || '00:00'}:00Z`);
+  const firstOffset = getTimeZoneOffset(timeZone, wallClock);
+  const first = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffset(timeZone, first);
+  if (secondOffset === firstOffset) {
+    return new Date(first);
+  }
+
+  // A time skipped by a transition has no instant of its own, so like Date
+  // move it forward by the gap
+  const second = wallClock - secondOffset;
+  return new Date(getTimeZoneOffset(timeZone, second) === secondOffset ? second : Math.max(first, second));
+}
+
+/**
+ * The calendar date and HH:MM time an instant shows on this device, or on a
+ * wall clock in `timeZone`
+ */
+export function getWallClock(instant: Date, timeZone?: string): { date: string; time: string } {
+  if (!timeZone) {
+    return { date: getDateString(instant), time: getTimeString(instant) };
+  }
+
+  const shifted = new Date(instant.getTime() + getTimeZoneOffset(timeZone, instant.getTime()));
+  const iso = shifted.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * The instant a task is due: at its due time, or the end of its due date
+ */
+export function getDueDateTime(dueDate: string, dueTime?: string, timeZone?: string): Date {
+  if (dueTime) {
+    return parseLocalDate(dueDate, dueTime, timeZone);
+  }
+  return new Date(parseLocalDate(addDays(dueDate, 1), undefined, timeZone).getTime() - 1);
+}
+
+/**
+ * The local calendar date an instant (a UTC ISO string) falls on
+ */
+export function getLocalDateOfInstant(instant: string): string {
+  return getDateString(new Date(instant));
+}
+
+/**
+ * The instants bounding the local days `from` through `to`, as UTC ISO
+ * strings that compare directly against stored timestamps. The start is
+ * inclusive and the end exclusive.
+ */
+export function getLocalDayRange(from: string, to: string = from): { start: string; end: string } {
+  return {
+    start: parseLocalDate(from).toISOString(),
+    end: parseLocalDate(addDays(to, 1)).toISOString(),
+  };
+}
+
 export function formatDate(date: Date | string): string {
-  const d = typeof date === 'string' ? new Date(date + 'T00:00:00') : date;
+  const d = typeof date === 'string' ? parseLocalDate(date) : date;
   return d.toLocaleDateString('en-US', {
     weekday: 'short',
     month: 'short',
@@ -15,8 +123,29 @@ export function formatTime(time: string): string {
   return `${displayHour}:${minutes} ${period}`;
 }
 
+/**
+ * The due time as shown on this device. A task fixed to another zone also
+ * shows its time there, e.g. "9:00 AM (2:00 PM GMT)".
+ */
+export function formatDueTime(dueDate: string, dueTime: string, timeZone?: string): string {
+  if (!timeZone) {
+    return formatTime(dueTime);
+  }
+
+  const due = parseLocalDate(dueDate, dueTime, timeZone);
+  const local = getWallClock(due);
+  if (local.time === dueTime && local.date === dueDate) {
+    return formatTime(dueTime);
+  }
+
+  const zoneName = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(due)
+    .find(part => part.type === 'timeZoneName')?.value;
+  return `${formatTime(local.time)} (${formatTime(dueTime)} ${zoneName ?? timeZone})`;
+}
+
 export function isToday(date: Date | string): boolean {
-  const d = typeof date === 'string' ? new Date(date + 'T00:00:00') : date;
+  const d = typeof date === 'string' ? parseLocalDate(date) : date;
   const today = new Date();
   return (
     d.getDate() === today.getDate() &&
@@ -26,7 +155,7 @@ export function isToday(date: Date | string): boolean {
 }
 
 export function isTomorrow(date: Date | string): boolean {
-  const d = typeof date === 'string' ? new Date(date + 'T00:00:00') : date;
+  const d = typeof date === 'string' ? parseLocalDate(date) : date;
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
   return (
@@ -36,8 +165,12 @@ export function isTomorrow(date: Date | string): boolean {
   );
 }
 
-export function isPastDue(date: Date | string, time?: string): boolean {
-  const d = typeof date === 'string' ? new Date(date + 'T00:00:00') : new Date(date);
+export function isPastDue(date: Date | string, time?: string, timeZone?: string): boolean {
+  if (typeof date === 'string') {
+    return getDueDateTime(date, time, timeZone) < new Date();
+  }
+
+  const d = new Date(date);
   const now = new Date();
 
   if (time) {
@@ -52,7 +185,7 @@ export function isPastDue(date: Date | string, time?: string): boolean {
 }
 
 export function getDaysUntil(date: Date | string): number {
-  const d = typeof date === 'string' ? new Date(date + 'T00:00:00') : date;
+  const d = typeof date === 'string' ? parseLocalDate(date) : date;
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   d.setHours(0, 0, 0, 0);
@@ -72,4 +205,47 @@ export function getTimeString(date: Date): string {
   const hours = date.getHours().toString().padStart(2, '0');
   const minutes = date.getMinutes().toString().padStart(2, '0');
   return `${hours}:${minutes}`;
-}
\ No newline at end of file
+}
+
+export function addDays(date: string, days: number): string {
+  const d = parseLocalDate(date);
+  d.setDate(d.getDate() + days);
+  return getDateString(d);
+}
+
+export function getDaysBetween(from: string, to: string): number {
+  const start = parseLocalDate(from);
+  const end = parseLocalDate(to);
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Where a task moves when snoozed at `now`. A snoozed task never lands in the
+ * past: an overdue task is moved relative to now rather than its due date.
+ */
+export function getSnoozedDueDate(
+  option: SnoozeOption,
+  dueDate: string,
+  dueTime: string | undefined,
+  now: Date = new Date(),
+  timeZone?: string
+): { dueDate: string; dueTime?: string } {
+  const today = getWallClock(now, timeZone).date;
+  const fromDate = dueDate > today ? dueDate : today;
+
+  switch (option) {
+    case 'hour': {
+      const due = parseLocalDate(dueDate, dueTime, timeZone);
+      const snoozed = new Date(Math.max(dueTime ? due.getTime() : 0, now.getTime()) + 60 * 60 * 1000);
+      const { date, time } = getWallClock(snoozed, timeZone);
+      return { dueDate: date, dueTime: time };
+    }
+    case 'day':
+      return { dueDate: addDays(fromDate, 1), dueTime };
+    case 'weekend': {
+      // The first Saturday after the task's date (a week ahead from a Saturday)
+      const day = parseLocalDate(fromDate).getDay();
+      return { dueDate: addDays(fromDate, (6 - day + 7) % 7 || 7), dueTime };
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/*
+ * Ids are UUIDv7 (RFC 9562): a millisecond timestamp followed by a counter
+ * and random bits, so they sort by creation time as plain strings. Ids made
+ * within the same millisecond, or after the clock moved backwards, count up
+ * from the last one, so no two ids made by the app are ever equal.
+ *
+ * Ids from before UUIDs were millisecond timestamps. They stay valid, since
+ * ids are only ever compared for equality.
+ */
+
+const MAX_SEQUENCE = 0xfff;
+
+let lastTimestamp = -1;
+let sequence = 0;
+
+const randomBytes = (count: number): Uint8Array => {
+  const bytes = new Uint8Array(count);
+  const { crypto } = globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } };
+
+  if (crypto?.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    // Hermes only has crypto with a polyfill; uniqueness comes from the counter
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+
+  return bytes;
+};
+
+const toHex = (value: number, digits: number): string => value.toString(16).padStart(digits, '0');
+
+export function generateId(): string {
+  const now = Date.now();
+
+  if (now > lastTimestamp) {
+    lastTimestamp = now;
+    // Start in the lower half so a burst rarely runs out of counter
+    sequence = Math.floor(Math.random() * (MAX_SEQUENCE / 2));
+  } else if (sequence < MAX_SEQUENCE) {
+    sequence++;
+  } else {
+    // Out of counter for this millisecond, so borrow the next one
+    lastTimestamp++;
+    sequence = 0;
+  }
+
+  const random = randomBytes(8);
+  // The top two bits hold the RFC 9562 variant
+  random[0] = 0x80 + (random[0] % 0x40);
+  const randomHex = Array.from(random, byte => toHex(byte, 2)).join('');
+  const timestampHex = toHex(lastTimestamp, 12);
+
+  return [
+    timestampHex.slice(0, 8),
+    timestampHex.slice(8),
+    `7${toHex(sequence, 3)}`,
+    randomHex.slice(0, 4),
+    randomHex.slice(4),
+  ].join('-');
+}
+
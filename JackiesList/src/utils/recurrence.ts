@@ -1,39 +1,562 @@
-import { Task, RecurrencePattern } from '../types';
+import {
+  Task,
+  TaskSeries,
+  OccurrencePosition,
+  RecurrencePattern,
+  RRule,
+  RRuleByDay,
+  RRuleFrequency,
+  RRuleWeekday,
+} from '../types';
+import { getDateString, parseLocalDate } from './date';
 
-export function getNextRecurrenceDate(
-  currentDate: Date,
-  pattern: RecurrencePattern,
-  interval?: number
-): Date {
-  const nextDate = new Date(currentDate);
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Adds whole months to a date, clamped to the last day of the target month,
+ * so Jan 31 plus one month is Feb 28 (or 29) rather than Mar 3
+ */
+export function addMonthsClamped(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  result.setDate(Math.min(date.getDate(), daysInMonth(result.getFullYear(), result.getMonth())));
+  return result;
+}
 
+// How far apart the occurrences of a fixed pattern are
+function getPatternStep(pattern: RecurrencePattern, interval?: number): { days: number; months: number } {
   switch (pattern) {
     case 'daily':
-      nextDate.setDate(nextDate.getDate() + 1);
-      break;
+      return { days: 1, months: 0 };
     case 'weekly':
-      nextDate.setDate(nextDate.getDate() + 7);
-      break;
+      return { days: 7, months: 0 };
     case 'biweekly':
-      nextDate.setDate(nextDate.getDate() + 14);
-      break;
+      return { days: 14, months: 0 };
     case 'monthly':
-      nextDate.setMonth(nextDate.getMonth() + 1);
-      break;
+      return { days: 0, months: 1 };
     case 'quarterly':
-      nextDate.setMonth(nextDate.getMonth() + 3);
-      break;
+      return { days: 0, months: 3 };
     case 'annually':
-      nextDate.setFullYear(nextDate.getFullYear() + 1);
-      break;
+      return { days: 0, months: 12 };
     case 'custom':
-      if (interval) {
-        nextDate.setDate(nextDate.getDate() + interval);
-      }
+      return { days: interval || 0, months: 0 };
+    default:
+      return { days: 0, months: 0 };
+  }
+}
+
+/**
+ * The occurrence `index` steps after `startDate` (0 is the start date itself).
+ * Each occurrence is derived from the anchor rather than the one before it,
+ * so a series due on the 31st falls on the last day of shorter months and
+ * returns to the 31st afterwards, and a Feb 29 series returns to Feb 29 in
+ * leap years. Days are added on the calendar, so DST changes never move an
+ * occurrence to another day.
+ */
+export function getRecurrenceDate(
+  startDate: Date,
+  pattern: RecurrencePattern,
+  interval: number | undefined,
+  index: number
+): Date {
+  const { days, months } = getPatternStep(pattern, interval);
+
+  if (months) {
+    return addMonthsClamped(startDate, months * index);
+  }
+
+  const date = new Date(startDate);
+  date.setDate(date.getDate() + days * index);
+  return date;
+}
+
+export function getNextRecurrenceDate(
+  currentDate: Date,
+  pattern: RecurrencePattern,
+  interval?: number
+): Date {
+  return getRecurrenceDate(currentDate, pattern, interval, 1);
+}
+
+type RecurrenceRule = Pick<TaskSeries, 'recurrencePattern' | 'recurrenceInterval' | 'rrule'> &
+  Partial<Pick<TaskSeries, 'recurrenceMode' | 'untilDate' | 'occurrenceCount'>>;
+
+/**
+ * Iterates the occurrence dates of a recurrence anchored at `startDate`, in
+ * order. Fixed patterns are counted from the anchor with `getRecurrenceDate`;
+ * 'rrule' patterns expand their RRULE.
+ */
+export function* iterateOccurrences(startDate: Date, recurrence: RecurrenceRule): Generator<Date> {
+  if (recurrence.recurrencePattern === 'rrule') {
+    if (recurrence.rrule) {
+      yield* iterateRRule(parseRRule(recurrence.rrule), startDate);
+    }
+    return;
+  }
+
+  const { days, months } = getPatternStep(recurrence.recurrencePattern, recurrence.recurrenceInterval);
+  if (!days && !months) {
+    // A custom pattern without an interval never advances
+    yield new Date(startDate);
+    return;
+  }
+
+  for (let index = 0; ; index++) {
+    yield getRecurrenceDate(startDate, recurrence.recurrencePattern, recurrence.recurrenceInterval, index);
+  }
+}
+
+/**
+ * Lists the occurrence dates of a recurrence anchored at `startDate` that fall
+ * between `rangeStart` and `rangeEnd` (inclusive)
+ */
+export function getOccurrenceDates(
+  startDate: Date,
+  recurrence: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  maxOccurrences: number = 365
+): Date[] {
+  const dates: Date[] = [];
+
+  for (const date of iterateOccurrences(startDate, recurrence)) {
+    if (date > rangeEnd || dates.length >= maxOccurrences) {
       break;
+    }
+    if (date >= rangeStart) {
+      dates.push(date);
+    }
   }
 
-  return nextDate;
+  return dates;
+}
+
+// RRULE (RFC 5545) support
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Indexed by Date.getDay()
+const WEEKDAYS: RRuleWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const getWeekdayCode = (date: Date): RRuleWeekday => WEEKDAYS[date.getDay()];
+
+const WEEKDAY_NAMES: Record<RRuleWeekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Stop iterating a rule that can never match again (e.g. BYMONTH=2;BYMONTHDAY=30)
+const MAX_EMPTY_PERIODS = 2000;
+
+const parseInteger = (part: string, value: string, min: number, max: number, signed = false): number => {
+  const number = Number(value);
+  const magnitude = Math.abs(number);
+  if (
+    !Number.isInteger(number) ||
+    magnitude < min ||
+    magnitude > max ||
+    (number < 0 && !signed)
+  ) {
+    throw new Error(`Invalid RRULE ${part}: ${value}`);
+  }
+  return number;
+};
+
+const parseIntegerList = (part: string, value: string, min: number, max: number, signed = false): number[] =>
+  value.split(',').map(item => parseInteger(part, item, min, max, signed));
+
+const parseByDay = (value: string): RRuleByDay => {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid RRULE BYDAY: ${value}`);
+  }
+  return match[1]
+    ? { weekday: match[2] as RRuleWeekday, ordinal: parseInteger('BYDAY', match[1], 1, 53, true) }
+    : { weekday: match[2] as RRuleWeekday };
+};
+
+const parseUntil = (value: string): string => {
+  // Date (20250131) or date-time (20250131T235959Z); only the date is kept
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid RRULE UNTIL: ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/**
+ * Parses an RRULE string such as `FREQ=MONTHLY;BYDAY=2TU`. An optional
+ * `RRULE:` prefix is accepted. Throws on malformed or unsupported parts.
+ */
+export function parseRRule(value: string): RRule {
+  const rule: Partial<RRule> = {};
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, raw] = part.split('=');
+    if (!raw) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    const name = key.toUpperCase();
+    const content = raw.toUpperCase();
+
+    switch (name) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(content as RRuleFrequency)) {
+          throw new Error(`Unsupported RRULE FREQ: ${raw}`);
+        }
+        rule.freq = content as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, content, 1, 999);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, content, 1, 9999);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(content);
+        break;
+      case 'BYDAY':
+        rule.byDay = content.split(',').map(parseByDay);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, content, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(name, content, 1, 12);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, content, 1, 366, true);
+        break;
+      case 'WKST':
+        // Weeks always start on Monday
+        if (content !== 'MO') {
+          throw new Error(`Unsupported RRULE WKST: ${raw}`);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('Invalid RRULE: FREQ is required');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('Invalid RRULE: COUNT and UNTIL cannot both be set');
+  }
+
+  return rule as RRule;
+}
+
+/**
+ * Serializes a rule back to its RRULE string (without the `RRULE:` prefix)
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+}
+
+const getDayOfYear = (date: Date): number =>
+  Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(date.getFullYear(), 0, 1).getTime()) /
+      (1000 * 60 * 60 * 24)
+  ) + 1;
+
+// Every day in the period of `freq` that starts on `periodStart`
+const getPeriodDays = (freq: RRuleFrequency, periodStart: Date): Date[] => {
+  const year = periodStart.getFullYear();
+  const month = periodStart.getMonth();
+  const day = periodStart.getDate();
+
+  switch (freq) {
+    case 'DAILY':
+      return [new Date(year, month, day)];
+    case 'WEEKLY':
+      return Array.from({ length: 7 }, (_, i) => new Date(year, month, day + i));
+    case 'MONTHLY':
+      return Array.from({ length: daysInMonth(year, month) }, (_, i) => new Date(year, month, i + 1));
+    case 'YEARLY': {
+      const length = getDayOfYear(new Date(year, 11, 31));
+      return Array.from({ length }, (_, i) => new Date(year, 0, i + 1));
+    }
+  }
+};
+
+const getFirstPeriodStart = (freq: RRuleFrequency, startDate: Date): Date => {
+  const year = startDate.getFullYear();
+  const month = startDate.getMonth();
+
+  switch (freq) {
+    case 'DAILY':
+      return new Date(year, month, startDate.getDate());
+    case 'WEEKLY':
+      // Weeks start on Monday
+      return new Date(year, month, startDate.getDate() - ((startDate.getDay() + 6) % 7));
+    case 'MONTHLY':
+      return new Date(year, month, 1);
+    case 'YEARLY':
+      return new Date(year, 0, 1);
+  }
+};
+
+const getNextPeriodStart = (freq: RRuleFrequency, periodStart: Date, interval: number): Date => {
+  const year = periodStart.getFullYear();
+  const month = periodStart.getMonth();
+  const day = periodStart.getDate();
+
+  switch (freq) {
+    case 'DAILY':
+      return new Date(year, month, day + interval);
+    case 'WEEKLY':
+      return new Date(year, month, day + 7 * interval);
+    case 'MONTHLY':
+      return new Date(year, month + interval, 1);
+    case 'YEARLY':
+      return new Date(year + interval, 0, 1);
+  }
+};
+
+const matchesMonthDay = (date: Date, monthDays: number[]): boolean => {
+  const day = date.getDate();
+  const length = daysInMonth(date.getFullYear(), date.getMonth());
+  return monthDays.some(monthDay => (monthDay > 0 ? day === monthDay : day === length + monthDay + 1));
+};
+
+// Ordinals count within the month, or within the year for yearly rules without BYMONTH
+const matchesByDay = (date: Date, byDay: RRuleByDay[], ordinalScope?: 'month' | 'year'): boolean =>
+  byDay.some(({ weekday, ordinal }) => {
+    if (WEEKDAYS[date.getDay()] !== weekday) return false;
+    if (!ordinal || !ordinalScope) return true;
+
+    const position = ordinalScope === 'month' ? date.getDate() : getDayOfYear(date);
+    const length =
+      ordinalScope === 'month'
+        ? daysInMonth(date.getFullYear(), date.getMonth())
+        : getDayOfYear(new Date(date.getFullYear(), 11, 31));
+    return ordinal > 0
+      ? Math.ceil(position / 7) === ordinal
+      : Math.floor((length - position) / 7) + 1 === -ordinal;
+  });
+
+// The occurrences of one period, before DTSTART, COUNT and UNTIL are applied
+const expandPeriod = (rule: RRule, startDate: Date, periodStart: Date): Date[] => {
+  let days = getPeriodDays(rule.freq, periodStart);
+
+  if (rule.byMonth?.length) {
+    days = days.filter(date => rule.byMonth!.includes(date.getMonth() + 1));
+  }
+
+  const hasMonthDays = !!rule.byMonthDay?.length && rule.freq !== 'WEEKLY';
+  if (hasMonthDays) {
+    days = days.filter(date => matchesMonthDay(date, rule.byMonthDay!));
+  }
+
+  if (rule.byDay?.length) {
+    let ordinalScope: 'month' | 'year' | undefined;
+    if (rule.freq === 'MONTHLY') ordinalScope = 'month';
+    if (rule.freq === 'YEARLY') ordinalScope = rule.byMonth?.length ? 'month' : 'year';
+    days = days.filter(date => matchesByDay(date, rule.byDay!, ordinalScope));
+  } else if (!hasMonthDays) {
+    // Without BYDAY/BYMONTHDAY the missing parts come from the start date
+    if (rule.freq === 'WEEKLY') {
+      days = days.filter(date => date.getDay() === startDate.getDay());
+    } else if (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') {
+      days = days.filter(date => date.getDate() === startDate.getDate());
+    }
+    if (rule.freq === 'YEARLY' && !rule.byMonth?.length) {
+      days = days.filter(date => date.getMonth() === startDate.getMonth());
+    }
+  }
+
+  if (rule.bySetPos?.length) {
+    const positions = rule.bySetPos
+      .map(position => (position > 0 ? position - 1 : days.length + position))
+      .filter(index => index >= 0 && index < days.length);
+    days = days.filter((_, index) => positions.includes(index));
+  }
+
+  return days;
+};
+
+/**
+ * Iterates the occurrence dates of an RRULE anchored at `startDate`, in order.
+ * Dates before `startDate` are skipped and COUNT/UNTIL end the iteration.
+ */
+export function* iterateRRule(rule: RRule, startDate: Date): Generator<Date> {
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const interval = Math.max(1, rule.interval ?? 1);
+  let periodStart = getFirstPeriodStart(rule.freq, start);
+  let emitted = 0;
+  let emptyPeriods = 0;
+
+  while (emptyPeriods < MAX_EMPTY_PERIODS) {
+    const dates = expandPeriod(rule, start, periodStart).filter(date => date >= start);
+    emptyPeriods = dates.length > 0 ? 0 : emptyPeriods + 1;
+
+    for (const date of dates) {
+      if (rule.until && getDateString(date) > rule.until) {
+        return;
+      }
+      yield date;
+      emitted++;
+      if (rule.count && emitted >= rule.count) {
+        return;
+      }
+    }
+
+    periodStart = getNextPeriodStart(rule.freq, periodStart, interval);
+  }
+}
+
+const joinList = (items: string[], conjunction = 'and'): string =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+
+const getOrdinalSuffix = (value: number): string => {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+};
+
+const ORDINAL_WORDS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'second to last',
+};
+
+const getOrdinalWord = (ordinal: number): string =>
+  ORDINAL_WORDS[ordinal] ??
+  (ordinal > 0 ? getOrdinalSuffix(ordinal) : `${getOrdinalSuffix(-ordinal)} to last`);
+
+const WEEKDAY_SET: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const WEEKEND_SET: RRuleWeekday[] = ['SA', 'SU'];
+
+const isSameWeekdaySet = (days: RRuleWeekday[], set: RRuleWeekday[]): boolean =>
+  days.length === set.length && set.every(day => days.includes(day));
+
+// "weekday", "weekend day" or "day" when BYDAY lists a whole group of days
+const getWeekdayGroupName = (days: RRuleWeekday[]): string | null => {
+  if (isSameWeekdaySet(days, WEEKDAY_SET)) return 'weekday';
+  if (isSameWeekdaySet(days, WEEKEND_SET)) return 'weekend day';
+  if (isSameWeekdaySet(days, [...WEEKDAY_SET, ...WEEKEND_SET])) return 'day';
+  return null;
+};
+
+const describeByDay = (rule: RRule): string => {
+  const byDay = rule.byDay!;
+  const weekdays = byDay.map(day => day.weekday);
+  const group = getWeekdayGroupName(weekdays);
+
+  if (rule.bySetPos?.length && byDay.every(day => !day.ordinal)) {
+    // e.g. BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 - "the last weekday"
+    const positions = joinList(rule.bySetPos.map(getOrdinalWord));
+    return `the ${positions} ${group ?? joinList(weekdays.map(day => WEEKDAY_NAMES[day]), 'or')}`;
+  }
+
+  if (byDay.some(day => day.ordinal)) {
+    return `the ${joinList(
+      byDay.map(day =>
+        day.ordinal ? `${getOrdinalWord(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}` : WEEKDAY_NAMES[day.weekday]
+      )
+    )}`;
+  }
+
+  if (group) {
+    return group === 'day' ? 'every day' : `${group}s`;
+  }
+
+  // Full names for a single day, short names for a list
+  return byDay.length === 1
+    ? WEEKDAY_NAMES[weekdays[0]]
+    : joinList(weekdays.map(day => WEEKDAY_NAMES[day].slice(0, 3)));
+};
+
+const describeMonthDays = (monthDays: number[]): string =>
+  `the ${joinList(
+    monthDays.map(day => {
+      if (day === -1) return 'last day';
+      return day > 0 ? getOrdinalSuffix(day) : `${getOrdinalSuffix(-day)} to last day`;
+    })
+  )}`;
+
+/**
+ * Builds a human-readable summary of a rule, e.g. "Every month on the second
+ * Tuesday" or "Every 3 weeks on Saturday, 10 times"
+ */
+export function describeRRule(rule: RRule): string {
+  const interval = rule.interval ?? 1;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.byMonth?.length) {
+    text += ` in ${joinList(rule.byMonth.map(month => MONTH_NAMES[month - 1]))}`;
+  }
+
+  const hasMonthDays = !!rule.byMonthDay?.length && rule.freq !== 'WEEKLY';
+  if (hasMonthDays) {
+    text += ` on ${describeMonthDays(rule.byMonthDay!)}`;
+  }
+  if (rule.byDay?.length) {
+    text += hasMonthDays ? ` if it is ${describeByDay(rule).replace(/^the /, 'a ')}` : ` on ${describeByDay(rule)}`;
+  }
+
+  return text + describeEnd(rule.count, rule.until);
+}
+
+// The end of a recurrence as a suffix, e.g. ", 10 times" or ", until Dec 31, 2025"
+function describeEnd(count?: number, until?: string): string {
+  let text = '';
+
+  if (count) {
+    text += `, ${count} ${count === 1 ? 'time' : 'times'}`;
+  }
+  if (until) {
+    const untilText = new Date(until + 'T00:00:00').toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    text += `, until ${untilText}`;
+  }
+
+  return text;
 }
 
 export function shouldCreateNextRecurrence(
@@ -42,7 +565,7 @@ export function shouldCreateNextRecurrence(
 ): boolean {
   if (!task.isRecurring) return false;
 
-  const taskDate = new Date(task.dueDate);
+  const taskDate = parseLocalDate(task.dueDate);
   const daysSinceTask = Math.floor(
     (completionDate.getTime() - taskDate.getTime()) / (1000 * 60 * 60 * 24)
   );
@@ -58,8 +581,9 @@ export function createRecurringTaskInstance(
     title: task.title,
     description: task.description,
     type: task.type,
-    dueDate: nextDate.toISOString().split('T')[0],
+    dueDate: getDateString(nextDate),
     dueTime: task.dueTime,
+    timeZone: task.timeZone,
     isRecurring: task.isRecurring,
     recurrencePattern: task.recurrencePattern,
     recurrenceInterval: task.recurrenceInterval,
@@ -68,7 +592,174 @@ export function createRecurringTaskInstance(
   };
 }
 
-export function formatRecurrenceText(pattern: RecurrencePattern, interval?: number): string {
+/**
+ * Iterates the occurrence dates (YYYY-MM-DD) of a scheduled series from its
+ * start date, stopping at its end date or after its occurrence count.
+ * Exception dates are left out but still count towards the occurrence
+ * count, as with RRULE COUNT and EXDATE.
+ */
+function* iterateSeriesOccurrences(series: TaskSeries): Generator<string> {
+  const exceptionDates = new Set(series.exceptionDates);
+  let count = 0;
+
+  for (const date of iterateOccurrences(new Date(series.startDate + 'T00:00:00'), series)) {
+    const occurrenceDate = getDateString(date);
+    if (series.untilDate && occurrenceDate > series.untilDate) {
+      return;
+    }
+    if (series.occurrenceCount && count >= series.occurrenceCount) {
+      return;
+    }
+    count++;
+    if (!exceptionDates.has(occurrenceDate)) {
+      yield occurrenceDate;
+    }
+  }
+}
+
+/**
+ * The next due date of a completion-based series counted from `fromDate`,
+ * stepping over its exception dates
+ */
+export function getNextSeriesDate(series: TaskSeries, fromDate: string): string | null {
+  let date = fromDate;
+
+  do {
+    const nextDate = getDateString(
+      getNextRecurrenceDate(new Date(date + 'T00:00:00'), series.recurrencePattern, series.recurrenceInterval)
+    );
+    if (nextDate <= date) {
+      // A custom pattern without an interval never advances
+      return null;
+    }
+    date = nextDate;
+  } while (series.exceptionDates?.includes(date));
+
+  return date;
+}
+
+/**
+ * Lists the occurrence dates (YYYY-MM-DD) of a series between `fromDate` and
+ * `toDate`, inclusive. A completion-based series only has one scheduled
+ * occurrence, its next due date.
+ */
+export function getSeriesOccurrenceDates(
+  series: TaskSeries,
+  fromDate: string,
+  toDate: string,
+  maxOccurrences: number = 365
+): string[] {
+  if (series.recurrenceMode === 'completion') {
+    const isScheduled = !series.exceptionDates?.includes(series.startDate);
+    return isScheduled && series.startDate >= fromDate && series.startDate <= toDate ? [series.startDate] : [];
+  }
+
+  const dates: string[] = [];
+  for (const date of iterateSeriesOccurrences(series)) {
+    if (date > toDate || dates.length >= maxOccurrences) {
+      break;
+    }
+    if (date >= fromDate) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Finds where an occurrence date falls in a scheduled series, and how many
+ * occurrences the series has in total if it ends. Returns null for dates the
+ * series does not occur on.
+ */
+export function getSeriesOccurrencePosition(
+  series: TaskSeries,
+  occurrenceDate: string
+): OccurrencePosition | null {
+  const hasEnd = !!series.untilDate || !!series.occurrenceCount;
+  let index = 0;
+  let position: OccurrencePosition | null = null;
+
+  for (const date of iterateSeriesOccurrences(series)) {
+    if (!position && date > occurrenceDate) {
+      return null;
+    }
+    index++;
+    if (date === occurrenceDate) {
+      position = { index };
+      if (!hasEnd) {
+        return position;
+      }
+    }
+  }
+
+  return position && { ...position, total: index };
+}
+
+/**
+ * Builds the instance of a series for an occurrence date, with any one-off
+ * override of that occurrence applied
+ */
+export function createSeriesInstance(
+  series: TaskSeries,
+  occurrenceDate: string
+): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> {
+  const override = series.overrides?.find(item => item.occurrenceDate === occurrenceDate);
+
+  return {
+    title: override?.title ?? series.title,
+    description: override?.description ?? series.description,
+    type: series.type,
+    dueDate: override?.dueDate ?? occurrenceDate,
+    dueTime: override?.dueTime ?? series.dueTime,
+    timeZone: series.timeZone,
+    isRecurring: false, // Instances are not recurring themselves
+    recurrencePattern: undefined,
+    recurrenceInterval: undefined,
+    rrule: undefined,
+    recurrenceMode: undefined,
+    recurrenceUntil: undefined,
+    recurrenceCount: undefined,
+    priority: series.priority,
+    categoryId: series.categoryId,
+    seriesId: series.id,
+    occurrenceDate,
+    autoCompleteChecklist: series.autoCompleteChecklist,
+  };
+}
+
+// How far after a completion the next instance is due, e.g. "3 days"
+function describeCompletionInterval(pattern: RecurrencePattern, interval?: number): string {
+  switch (pattern) {
+    case 'daily':
+      return '1 day';
+    case 'weekly':
+      return '1 week';
+    case 'biweekly':
+      return '2 weeks';
+    case 'monthly':
+      return '1 month';
+    case 'quarterly':
+      return '3 months';
+    case 'annually':
+      return '1 year';
+    default:
+      return interval ? `${interval} ${interval === 1 ? 'day' : 'days'}` : 'some time';
+  }
+}
+
+export function formatRecurrenceText(recurrence: RecurrenceRule): string {
+  const text = describePattern(recurrence);
+  return text && text + describeEnd(recurrence.occurrenceCount, recurrence.untilDate);
+}
+
+function describePattern(recurrence: RecurrenceRule): string {
+  const { recurrencePattern: pattern, recurrenceInterval: interval, rrule } = recurrence;
+
+  if (recurrence.recurrenceMode === 'completion') {
+    return `Next due ${describeCompletionInterval(pattern, interval)} after completion`;
+  }
+
   switch (pattern) {
     case 'daily':
       return 'Daily';
@@ -84,7 +775,14 @@ export function formatRecurrenceText(pattern: RecurrencePattern, interval?: numb
       return 'Yearly';
     case 'custom':
       return interval ? `Every ${interval} days` : 'Custom';
+    case 'rrule':
+      try {
+        return rrule ? describeRRule(parseRRule(rrule)) : 'Custom rule';
+      } catch (error) {
+        console.error('Error describing recurrence rule:', error);
+        return 'Custom rule';
+      }
     default:
       return '';
   }
-}
\ No newline at end of file
+}
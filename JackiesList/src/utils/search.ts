@@ -0,0 +1,56 @@
+/*
+ * Search queries are split into lowercase words, each of which matches any
+ * word starting with it ("plumb" finds "Plumber"). All words must match
+ * somewhere in the task, its description or its completion notes.
+ */
+
+// A run of text, and whether it matched one of the search words
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export function getSearchTerms(query: string): string[] {
+  return [...new Set((query.toLowerCase().match(WORD) ?? []))];
+}
+
+// The full-text MATCH expression for the given search words
+export function buildMatchQuery(terms: string[]): string {
+  // Lowercase words can never be read as FTS operators such as OR or NOT
+  return terms.map(term => `${term}*`).join(' ');
+}
+
+export function matchesSearchTerms(text: string, terms: string[]): boolean {
+  return splitHighlights(text, terms).some(segment => segment.match);
+}
+
+// Splits text into runs so the words a search matched can be highlighted
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const word of text.matchAll(WORD)) {
+    const lower = word[0].toLowerCase();
+    const term = terms
+      .filter(candidate => lower.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!term) {
+      continue;
+    }
+
+    const start = word.index!;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: text.slice(start, start + term.length), match: true });
+    last = start + term.length;
+  }
+
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+
+  return segments;
+}